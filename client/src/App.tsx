@@ -4,11 +4,15 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import NotFound from "@/pages/not-found";
 import Home from "@/pages/home";
+import Gallery from "@/pages/gallery";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={Home} />
+      {/* The same Home for both, so a new session keeps its state when it moves onto its URL */}
+      <Route path="/animations/:id" component={Home} />
+      <Route path="/gallery" component={Gallery} />
       <Route component={NotFound} />
     </Switch>
   );
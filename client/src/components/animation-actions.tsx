@@ -0,0 +1,180 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { MoreHorizontal, Pencil, Copy, Trash2 } from "lucide-react";
+import type { Animation, AnimationSummary } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+interface AnimationActionsProps {
+  animation: AnimationSummary;
+  onDuplicated?: (animation: Animation) => void;
+  onDeleted?: () => void;
+}
+
+function invalidateAnimations() {
+  return queryClient.invalidateQueries({
+    predicate: (query) => String(query.queryKey[0]).startsWith("/api/animations"),
+  });
+}
+
+export function AnimationActions({ animation, onDuplicated, onDeleted }: AnimationActionsProps) {
+  const { toast } = useToast();
+  const [renaming, setRenaming] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+  const [title, setTitle] = useState("");
+
+  const onError = (error: Error) => {
+    toast({
+      variant: "destructive",
+      title: "Something went wrong",
+      description: error.message,
+    });
+  };
+
+  const renameMutation = useMutation({
+    mutationFn: async (newTitle: string) => {
+      const response = await apiRequest("PATCH", `/api/animations/${animation.id}`, {
+        title: newTitle || null,
+      });
+      return response.json() as Promise<Animation>;
+    },
+    onSuccess: () => {
+      setRenaming(false);
+      invalidateAnimations();
+    },
+    onError,
+  });
+
+  const duplicateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/animations/${animation.id}/duplicate`);
+      return response.json() as Promise<Animation>;
+    },
+    onSuccess: (data) => {
+      invalidateAnimations();
+      toast({ description: "Animation duplicated" });
+      onDuplicated?.(data);
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => apiRequest("DELETE", `/api/animations/${animation.id}`),
+    onSuccess: () => {
+      queryClient.removeQueries({ queryKey: [`/api/animations/${animation.id}`] });
+      invalidateAnimations();
+      toast({ description: "Animation deleted" });
+      onDeleted?.();
+    },
+    onError,
+  });
+
+  return (
+    // Keep clicks inside the menu and dialogs from reaching clickable parents like gallery cards
+    <div onClick={(e) => e.stopPropagation()}>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" className="h-8 w-8" title="Animation actions">
+            <MoreHorizontal className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem
+            onSelect={() => {
+              setTitle(animation.title || "");
+              setRenaming(true);
+            }}
+          >
+            <Pencil className="mr-2 h-4 w-4" />
+            Rename
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onSelect={() => duplicateMutation.mutate()}
+            disabled={duplicateMutation.isPending}
+          >
+            <Copy className="mr-2 h-4 w-4" />
+            Duplicate
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            className="text-destructive"
+            onSelect={() => setDeleting(true)}
+          >
+            <Trash2 className="mr-2 h-4 w-4" />
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={renaming} onOpenChange={setRenaming}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rename animation</DialogTitle>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              renameMutation.mutate(title.trim());
+            }}
+            className="space-y-4"
+          >
+            <Input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder={animation.description}
+              autoFocus
+            />
+            <DialogFooter>
+              <Button type="submit" disabled={renameMutation.isPending}>
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deleting} onOpenChange={setDeleting}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this animation?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{animation.title || animation.description}" and its version history will be permanently removed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => deleteMutation.mutate()}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
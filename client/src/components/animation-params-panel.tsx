@@ -0,0 +1,157 @@
+import { useEffect, useState } from "react";
+import type { AnimationParams, RepeatMode } from "@shared/schema";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const EASINGS: { value: AnimationParams["easing"]; label: string }[] = [
+  { value: "linear", label: "Linear" },
+  { value: "ease", label: "Ease" },
+  { value: "ease-in", label: "Ease in" },
+  { value: "ease-out", label: "Ease out" },
+  { value: "ease-in-out", label: "Ease in-out" },
+];
+
+interface AnimationParamsPanelProps {
+  value: AnimationParams;
+  // Called while a control is being adjusted, e.g. on every slider step
+  onChange: (changes: Partial<AnimationParams>) => void;
+  // Called once a value is settled and should be applied to the animation
+  onCommit: (changes: Partial<AnimationParams>) => void;
+  repeat: RepeatMode;
+  onRepeatChange: (repeat: RepeatMode) => void;
+  disabled?: boolean;
+}
+
+function clampCount(count: number): number {
+  return Math.min(100, Math.max(2, Math.floor(count) || 2));
+}
+
+export function AnimationParamsPanel({
+  value,
+  onChange,
+  onCommit,
+  repeat,
+  onRepeatChange,
+  disabled = false,
+}: AnimationParamsPanelProps) {
+  // Typed counts are only applied once the field loses focus
+  const [count, setCount] = useState(repeat.mode === "times" ? repeat.count : 2);
+  useEffect(() => {
+    if (repeat.mode === "times") setCount(repeat.count);
+  }, [repeat]);
+
+  const change = (changes: Partial<AnimationParams>) => {
+    onChange(changes);
+    onCommit(changes);
+  };
+
+  return (
+    <Card className="p-4 space-y-4">
+      <h2 className="text-lg font-semibold">Animation parameters</h2>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Duration</Label>
+          <span className="text-sm text-muted-foreground">{value.duration}s</span>
+        </div>
+        <Slider
+          min={0.1}
+          max={10}
+          step={0.1}
+          value={[value.duration]}
+          onValueChange={([duration]) => onChange({ duration })}
+          onValueCommit={([duration]) => onCommit({ duration })}
+          disabled={disabled}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Easing</Label>
+        <Select
+          value={value.easing}
+          onValueChange={(easing) => change({ easing: easing as AnimationParams["easing"] })}
+          disabled={disabled}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {EASINGS.map(({ value, label }) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Direction</Label>
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          className="justify-start"
+          value={value.direction}
+          onValueChange={(direction) => {
+            // Radix clears the value when the active item is clicked again
+            if (direction) change({ direction: direction as AnimationParams["direction"] });
+          }}
+          disabled={disabled}
+        >
+          <ToggleGroupItem value="normal">Normal</ToggleGroupItem>
+          <ToggleGroupItem value="reverse">Reverse</ToggleGroupItem>
+          <ToggleGroupItem value="alternate">Alternate</ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Repeat</Label>
+        <div className="flex items-center gap-2">
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            className="justify-start"
+            value={repeat.mode}
+            onValueChange={(mode) => {
+              if (mode === "times") onRepeatChange({ mode, count: clampCount(count) });
+              else if (mode === "once" || mode === "indefinite") onRepeatChange({ mode });
+            }}
+            disabled={disabled}
+          >
+            <ToggleGroupItem value="once">Once</ToggleGroupItem>
+            <ToggleGroupItem value="times">N times</ToggleGroupItem>
+            <ToggleGroupItem value="indefinite">Forever</ToggleGroupItem>
+          </ToggleGroup>
+          {repeat.mode === "times" && (
+            <Input
+              type="number"
+              min={2}
+              max={100}
+              step={1}
+              className="w-20"
+              value={count}
+              onChange={(e) => setCount(Number(e.target.value))}
+              onBlur={() => {
+                const next = clampCount(count);
+                setCount(next);
+                if (next !== repeat.count) onRepeatChange({ mode: "times", count: next });
+              }}
+              title="Number of times to play"
+              disabled={disabled}
+            />
+          )}
+        </div>
+      </div>
+    </Card>
+  );
+}
@@ -6,13 +6,19 @@ import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Send, Download, ExternalLink, Copy } from "lucide-react";
+import { Send, Download, ExternalLink, Copy, RotateCcw, X } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { z } from "zod";
-import type { Message } from "@shared/schema";
+import { MAX_VARIANTS, type AnimationVersion, type GenerationError, type GenerationStage, type Message } from "@shared/schema";
 import { SVGPreview } from "./svg-preview";
 import { LoadingIndicator } from "./loading-indicator";
-import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { apiRequest } from "@/lib/queryClient";
 
 const messageSchema = z.object({
@@ -21,10 +27,32 @@ const messageSchema = z.object({
 
 type MessageFormData = z.infer<typeof messageSchema>;
 
+// What a streaming generation has reported so far
+export interface GenerationProgress {
+  stage: GenerationStage;
+  explanation: string;
+}
+
+const STAGE_LABELS: Record<GenerationStage, string> = {
+  extracting: "Extracting elements...",
+  prompting: "Waiting for the model...",
+  parsing: "Reading the response...",
+  validating: "Checking the animations...",
+  inserting: "Inserting animations...",
+};
+
 interface ChatInterfaceProps {
   messages: Message[];
-  onSendMessage: (content: string, loopAnimation?: boolean) => void;
+  onSendMessage: (content: string) => void;
+  failedAttempt?: GenerationError | null;
+  onRetry?: () => void;
   isLoading?: boolean;
+  progress?: GenerationProgress | null;
+  onCancel?: () => void;
+  variants?: AnimationVersion[];
+  onSelectVariant?: (variant: AnimationVersion) => void;
+  variantCount?: number;
+  onVariantCountChange?: (count: number) => void;
   animatedSvg?: string | null;
   originalSvg: string | null;
   selectedElements: string[];
@@ -34,7 +62,15 @@ interface ChatInterfaceProps {
 export function ChatInterface({
   messages,
   onSendMessage,
+  failedAttempt,
+  onRetry,
   isLoading = false,
+  progress,
+  onCancel,
+  variants = [],
+  onSelectVariant,
+  variantCount = 1,
+  onVariantCountChange,
   animatedSvg,
   originalSvg,
   selectedElements = [],
@@ -50,8 +86,6 @@ export function ChatInterface({
     },
   });
 
-  const [loopAnimation, setLoopAnimation] = useState(true); // Set default to true
-
   // Fetch selected elements preview
   useEffect(() => {
     async function fetchPreview() {
@@ -86,7 +120,7 @@ export function ChatInterface({
   }, [originalSvg, selectedElements, referenceElements]);
 
   const onSubmit = (data: MessageFormData) => {
-    onSendMessage(data.content, loopAnimation);
+    onSendMessage(data.content);
     form.reset();
   };
 
@@ -127,6 +161,8 @@ export function ChatInterface({
   };
 
   const showPreview = previewSvg && (selectedElements.length > 0 || referenceElements.length > 0);
+  // Cancelled turns can follow the reply that produced the current animation
+  const lastReplyIndex = messages.map(message => message.role).lastIndexOf("assistant");
 
   return (
     <Card className="flex flex-col h-[500px] relative">
@@ -201,11 +237,11 @@ export function ChatInterface({
                   message.role === "user"
                     ? "bg-primary text-primary-foreground"
                     : "bg-muted"
-                }`}
+                } ${message.cancelled ? "opacity-60" : ""}`}
               >
                 <p className="text-sm whitespace-pre-wrap">{message.content}</p>
 
-                {message.role === "assistant" && index === messages.length - 1 && animatedSvg && (
+                {index === lastReplyIndex && animatedSvg && (
                   <div className="mt-4 p-2 rounded bg-background/50">
                     <div className="flex items-center justify-between mb-2">
                       <p className="text-xs opacity-70">Generated Animation:</p>
@@ -251,20 +287,88 @@ export function ChatInterface({
                   </div>
                 )}
 
+                {index === lastReplyIndex && variants.length > 1 && (
+                  <div className="mt-4 space-y-2">
+                    <p className="text-xs opacity-70">Pick a variant:</p>
+                    <div className="grid grid-cols-2 gap-2">
+                      {variants.map((variant, variantIndex) => (
+                        <button
+                          key={variant.id}
+                          type="button"
+                          className={`aspect-square rounded bg-background/50 p-2 border-2 ${
+                            variant.animatedSvg === animatedSvg
+                              ? "border-primary"
+                              : "border-transparent hover:border-muted-foreground/30"
+                          }`}
+                          onClick={() => onSelectVariant?.(variant)}
+                          title={variant.explanation || `Variant ${variantIndex + 1}`}
+                        >
+                          <SVGPreview
+                            svg={variant.animatedSvg}
+                            title=""
+                            className="w-full h-full pointer-events-none"
+                          />
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 <span className="text-xs opacity-70">
                   {new Date(message.timestamp).toLocaleTimeString()}
+                  {message.cancelled && " · Cancelled"}
                 </span>
               </div>
             </div>
           ))}
 
+          {failedAttempt && !isLoading && (
+            <>
+              <div className="flex justify-end">
+                <div className="rounded-lg px-4 py-2 max-w-[80%] bg-primary text-primary-foreground">
+                  <p className="text-sm whitespace-pre-wrap">{failedAttempt.prompt}</p>
+                </div>
+              </div>
+              <div className="flex justify-start">
+                <div className="rounded-lg px-4 py-2 max-w-[80%] space-y-2 bg-destructive/10 text-destructive">
+                  <p className="text-sm whitespace-pre-wrap">Error: {failedAttempt.message}</p>
+                  {failedAttempt.modelResponse && (
+                    <details className="text-xs">
+                      <summary className="cursor-pointer">View model response</summary>
+                      <pre className="mt-2 p-2 bg-muted text-muted-foreground rounded-md overflow-x-auto">
+                        {failedAttempt.modelResponse}
+                      </pre>
+                    </details>
+                  )}
+                  {onRetry && (
+                    <Button variant="outline" size="sm" onClick={onRetry}>
+                      <RotateCcw className="mr-2 h-4 w-4" />
+                      Retry
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </>
+          )}
+
           {isLoading && (
             <div className="flex justify-start">
-              <div className="rounded-lg px-4 py-2 bg-muted">
+              <div className="rounded-lg px-4 py-2 max-w-[80%] space-y-2 bg-muted">
                 <div className="flex items-center gap-4">
                   <LoadingIndicator />
-                  <p className="text-sm">Generating animation...</p>
+                  <p className="text-sm">
+                    {progress ? STAGE_LABELS[progress.stage] : "Generating animation..."}
+                  </p>
                 </div>
+                {progress?.explanation && (
+                  <p className="text-sm whitespace-pre-wrap">{progress.explanation}</p>
+                )}
+                {onCancel && (
+                  <Button variant="outline" size="sm" onClick={onCancel}>
+                    <X className="mr-2 h-4 w-4" />
+                    Cancel
+                  </Button>
+                )}
               </div>
             </div>
           )}
@@ -289,18 +393,37 @@ export function ChatInterface({
                 </FormItem>
               )}
             />
-            <Button
-              type="submit"
-              className="w-full"
-              disabled={isLoading}
-            >
-              {isLoading ? (
-                <LoadingIndicator className="w-4 h-4" />
-              ) : (
-                <Send className="mr-2 h-4 w-4" />
+            <div className="flex gap-2">
+              {onVariantCountChange && (
+                <Select
+                  value={String(variantCount)}
+                  onValueChange={(value) => onVariantCountChange(Number(value))}
+                >
+                  <SelectTrigger className="w-[140px]" title="Candidate animations to generate">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1).map((count) => (
+                      <SelectItem key={count} value={String(count)}>
+                        {count === 1 ? "1 variant" : `${count} variants`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               )}
-              Send
-            </Button>
+              <Button
+                type="submit"
+                className="flex-1"
+                disabled={isLoading}
+              >
+                {isLoading ? (
+                  <LoadingIndicator className="w-4 h-4" />
+                ) : (
+                  <Send className="mr-2 h-4 w-4" />
+                )}
+                Send
+              </Button>
+            </div>
           </form>
         </Form>
       </div>
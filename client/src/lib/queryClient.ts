@@ -23,6 +23,63 @@ export async function apiRequest(
   return res;
 }
 
+// An `error` event, with its whole body for callers that need more than the message
+export class StreamError extends Error {
+  constructor(message: string, public body: unknown) {
+    super(message);
+    this.name = "StreamError";
+  }
+}
+
+// Sends a request that answers with Server-Sent Events: `progress` events are
+// passed to onProgress, and the final `result` or `error` event settles the promise
+export async function streamRequest<T, P = unknown>(
+  method: string,
+  url: string,
+  data: unknown,
+  { onProgress, signal }: { onProgress?: (event: P) => void; signal?: AbortSignal } = {},
+): Promise<T> {
+  const res = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
+    body: JSON.stringify(data),
+    credentials: "include",
+    signal,
+  });
+
+  await throwIfResNotOk(res);
+  if (!res.body) throw new Error("Response has no body to stream");
+
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    // Events are separated by a blank line
+    let boundary: number;
+    while ((boundary = buffer.indexOf("\n\n")) >= 0) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let event = "message";
+      let payload = "";
+      for (const line of block.split("\n")) {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) payload += line.slice(5).trim();
+      }
+
+      const body = JSON.parse(payload);
+      if (event === "progress") onProgress?.(body);
+      else if (event === "result") return body as T;
+      else if (event === "error") throw new StreamError(body.error || "Request failed", body);
+    }
+  }
+
+  throw new Error("Stream ended without a result");
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
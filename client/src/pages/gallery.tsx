@@ -0,0 +1,146 @@
+import { useState, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import type { AnimationList } from "@shared/schema";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { SVGPreview } from "@/components/svg-preview";
+import { LoadingIndicator } from "@/components/loading-indicator";
+import { AnimationActions } from "@/components/animation-actions";
+
+const PAGE_SIZE = 12;
+
+export default function Gallery() {
+  const [, setLocation] = useLocation();
+  const [search, setSearch] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [page, setPage] = useState(1);
+
+  const queryUrl = useMemo(() => {
+    const params = new URLSearchParams({
+      page: String(page),
+      pageSize: String(PAGE_SIZE),
+    });
+    if (search.trim()) params.set("search", search.trim());
+    if (from) params.set("from", new Date(`${from}T00:00:00`).toISOString());
+    if (to) params.set("to", new Date(`${to}T23:59:59.999`).toISOString());
+    return `/api/animations?${params}`;
+  }, [search, from, to, page]);
+
+  const { data, isLoading, error } = useQuery<AnimationList>({
+    queryKey: [queryUrl],
+    // The gallery should always reflect animations generated since it was last opened
+    refetchOnMount: "always",
+  });
+
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+
+  const updateFilter = (setter: (value: string) => void) =>
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      setter(e.target.value);
+      setPage(1);
+    };
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="space-y-8">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-4xl font-bold mb-2">Animation Gallery</h1>
+            <p className="text-muted-foreground">
+              Browse previously generated animations and reopen them in the editor
+            </p>
+          </div>
+          <Button asChild variant="outline">
+            <Link href="/">New animation</Link>
+          </Button>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-[1fr_auto_auto]">
+          <Input
+            placeholder="Search descriptions and explanations..."
+            value={search}
+            onChange={updateFilter(setSearch)}
+          />
+          <Input
+            type="date"
+            value={from}
+            onChange={updateFilter(setFrom)}
+            title="Created from"
+          />
+          <Input
+            type="date"
+            value={to}
+            onChange={updateFilter(setTo)}
+            title="Created until"
+          />
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <LoadingIndicator />
+          </div>
+        ) : error ? (
+          <p className="text-destructive">Failed to load animations: {error.message}</p>
+        ) : !data?.items.length ? (
+          <p className="text-muted-foreground text-center py-12">No animations found</p>
+        ) : (
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
+            {data.items.map((animation) => (
+              <Card
+                key={animation.id}
+                className="cursor-pointer transition-shadow hover:shadow-lg"
+                onClick={() => setLocation(`/animations/${animation.id}`)}
+              >
+                <CardContent className="p-4 space-y-3">
+                  <div className="aspect-square bg-muted rounded-lg p-2">
+                    <SVGPreview
+                      svg={animation.animatedSvg || animation.originalSvg}
+                      title=""
+                      className="w-full h-full"
+                    />
+                  </div>
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="space-y-1 min-w-0">
+                      <p className="text-sm font-medium line-clamp-2">
+                        {animation.title || animation.description}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {animation.createdAt && new Date(animation.createdAt).toLocaleString()}
+                      </p>
+                    </div>
+                    <AnimationActions animation={animation} />
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        {data && data.total > data.pageSize && (
+          <div className="flex items-center justify-center gap-4">
+            <Button
+              variant="outline"
+              onClick={() => setPage(p => p - 1)}
+              disabled={page <= 1}
+            >
+              Previous
+            </Button>
+            <p className="text-sm text-muted-foreground">
+              Page {page} of {totalPages}
+            </p>
+            <Button
+              variant="outline"
+              onClick={() => setPage(p => p + 1)}
+              disabled={page >= totalPages}
+            >
+              Next
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
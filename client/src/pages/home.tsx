@@ -1,26 +1,67 @@
-import { useState, useCallback, useMemo } from "react";
+import { useState, useCallback, useMemo, useEffect, useRef } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useMutation } from "@tanstack/react-query";
-import { insertAnimationSchema, type Animation, type Message } from "@shared/schema";
-import { apiRequest } from "@/lib/queryClient";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link, useLocation, useParams } from "wouter";
+import {
+  DEFAULT_ANIMATION_PARAMS,
+  insertAnimationSchema,
+  type Animation,
+  type AnimationParams,
+  type AnimationVersion,
+  type GeneratedAnimation,
+  type GenerationError,
+  type GenerationEvent,
+  type Message,
+  type NormalizedSvg,
+  type RepeatMode,
+  type StrippedContent,
+} from "@shared/schema";
+import { apiRequest, queryClient, streamRequest, StreamError } from "@/lib/queryClient";
 import { Form } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { SVGPreview } from "@/components/svg-preview";
-import { ChatInterface } from "@/components/chat-interface";
+import { ChatInterface, type GenerationProgress } from "@/components/chat-interface";
+import { AnimationActions } from "@/components/animation-actions";
+import { AnimationParamsPanel } from "@/components/animation-params-panel";
 
 type SelectionMode = 'animate' | 'reference';
 
+function describeStripped(stripped: StrippedContent[]): string {
+  const descriptions = stripped.map(({ tagName, attribute, reason }) =>
+    `${attribute ? `${tagName} ${attribute}` : tagName}: ${reason.replace('-', ' ')}`
+  );
+  return Array.from(new Set(descriptions)).join(", ");
+}
+
 export default function Home() {
   const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const params = useParams<{ id?: string }>();
+  const animationId = params.id ?? null;
+  const [animation, setAnimation] = useState<Animation | null>(null);
+  // Once an animation exists, refinements build on it instead of starting over
+  const currentId = animation?.id ?? null;
   const [originalSvg, setOriginalSvg] = useState<string | null>(null);
   const [selectedElements, setSelectedElements] = useState<string[]>([]);
   const [referenceElements, setReferenceElements] = useState<string[]>([]);
   const [selectionMode, setSelectionMode] = useState<SelectionMode>('animate');
   const [conversation, setConversation] = useState<Message[]>([]);
-  const [loopAnimation, setLoopAnimation] = useState<boolean>(false); // Added loopAnimation state
+  const [failedAttempt, setFailedAttempt] = useState<GenerationError | null>(null);
+  const [progress, setProgress] = useState<GenerationProgress | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const [variantCount, setVariantCount] = useState(1);
+  const [variants, setVariants] = useState<AnimationVersion[]>([]);
+  // Parameters the user picked, sent with each request on top of the animation's own
+  const [parameterOverrides, setParameterOverrides] = useState<Partial<AnimationParams>>({});
+
+  const parameters = useMemo(
+    () => ({ ...DEFAULT_ANIMATION_PARAMS, ...animation?.parameters, ...parameterOverrides }),
+    [animation, parameterOverrides]
+  );
+  const [repeat, setRepeat] = useState<RepeatMode>({ mode: 'indefinite' });
 
   // Memoize selected elements for stable query key
   const selectedElementsKey = useMemo(
@@ -43,54 +84,221 @@ export default function Home() {
   });
 
 
+  const { data: savedAnimation, error: loadError } = useQuery<Animation>({
+    queryKey: [`/api/animations/${animationId}`],
+    enabled: animationId !== null,
+  });
+
+  // Opening another animation, or a blank editor, starts over. A new session moving onto
+  // its own URL keeps its variants, selection mode and the rest of its state.
+  const previousIdRef = useRef(animationId);
+  useEffect(() => {
+    const previousId = previousIdRef.current;
+    previousIdRef.current = animationId;
+    if (previousId === null || previousId === animationId) return;
+
+    setAnimation(null);
+    setOriginalSvg(null);
+    form.reset();
+    setSelectedElements([]);
+    setReferenceElements([]);
+    setSelectionMode('animate');
+    setConversation([]);
+    setFailedAttempt(null);
+    setProgress(null);
+    setVariantCount(1);
+    setVariants([]);
+    setParameterOverrides({});
+    setRepeat({ mode: 'indefinite' });
+  }, [animationId, form]);
+
+  // Rehydrate the editor when resuming a saved animation
+  useEffect(() => {
+    if (!savedAnimation) return;
+    setAnimation(savedAnimation);
+    setOriginalSvg(savedAnimation.originalSvg);
+    form.setValue("originalSvg", savedAnimation.originalSvg);
+    setSelectedElements(savedAnimation.selectedElements ?? []);
+    setReferenceElements(savedAnimation.referenceElements ?? []);
+    setRepeat(savedAnimation.repeat);
+    setConversation(savedAnimation.conversation ?? []);
+    setFailedAttempt(savedAnimation.errorDetails);
+    setParameterOverrides({});
+  }, [savedAnimation, form]);
+
+  useEffect(() => {
+    if (!loadError) return;
+    toast({
+      variant: "destructive",
+      title: "Error loading animation",
+      description: loadError.message,
+    });
+  }, [loadError, toast]);
+
+  // Show a record the server answered a generation with, successful or not
+  const showRecord = (data: Animation) => {
+    setAnimation(data);
+    setConversation(data.conversation ?? []);
+    setFailedAttempt(data.errorDetails);
+    queryClient.setQueryData([`/api/animations/${data.id}`], data);
+
+    // Move a fresh session onto its own URL so refreshes and follow-ups stay on this record
+    if (animationId !== String(data.id)) {
+      setLocation(`/animations/${data.id}`, { replace: true });
+    }
+  };
+
   const mutation = useMutation({
     mutationFn: async (data: { originalSvg: string; description: string }) => {
+      const controller = new AbortController();
+      abortRef.current = controller;
+      const options = {
+        signal: controller.signal,
+        onProgress: (event: GenerationEvent) => {
+          setProgress(prev => {
+            if (event.type === 'explanation') {
+              return { stage: prev?.stage ?? 'prompting', explanation: (prev?.explanation ?? '') + event.delta };
+            }
+            // A new prompt (e.g. a repair attempt) starts the explanation over
+            return { stage: event.stage, explanation: event.stage === 'prompting' ? '' : prev?.explanation ?? '' };
+          });
+        },
+      };
+
+      if (currentId !== null) {
+        return streamRequest<GeneratedAnimation, GenerationEvent>("PATCH", `/api/animations/${currentId}`, {
+          description: data.description,
+          selectedElements,
+          referenceElements,
+          repeat,
+          // Everything the panel shows, so the model's suggestion can't undo values the
+          // user set before (overrides are cleared once they are stored)
+          parameters,
+          variants: variantCount,
+        }, options);
+      }
+
       const payload = {
         ...data,
         selectedElements,
         referenceElements,
-        loop: loopAnimation, // Add the loop parameter
+        repeat,
+        parameters: parameterOverrides,
+        variants: variantCount,
       };
-      const response = await apiRequest("POST", "/api/animations", payload);
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || 'Failed to generate animation');
-      }
-      return response.json() as Promise<Animation>;
+      return streamRequest<GeneratedAnimation, GenerationEvent>("POST", "/api/animations", payload, options);
     },
     onSuccess: (data) => {
-      // Reset selections after successful mutation
-      setSelectedElements([]);
-      setReferenceElements([]);
-      setConversation(prev => [...prev,
-        {
+      showRecord(data);
+      setVariants(data.variants ?? []);
+      if (data.droppedAnimations?.length) {
+        toast({
+          title: "Some animations were not applied",
+          description: data.droppedAnimations
+            .map(({ elementId, reason }) => `#${elementId}: ${reason.replace('-', ' ')}`)
+            .join(", "),
+        });
+      }
+      if (data.strippedContent?.length) {
+        toast({
+          title: "Unsafe content was removed from the SVG",
+          description: describeStripped(data.strippedContent),
+        });
+      }
+    },
+    onError: (error: Error, variables) => {
+      // Failed generations are recorded too, with the attempt in their error details
+      const failedRecord = error instanceof StreamError
+        ? (error.body as { animation?: Animation }).animation
+        : undefined;
+      if (failedRecord) {
+        showRecord(failedRecord);
+        return;
+      }
+
+      if (error.name === 'AbortError') {
+        // Keep the cancelled prompt in the chat, the server records it the same way
+        const cancelledTurn: Message = {
           role: "user",
-          content: form.getValues("description"),
-          timestamp: new Date(),
-        },
-        {
-          role: "assistant",
-          content: data.explanation || "I've generated the animation based on your description.",
+          content: variables.description,
           timestamp: new Date(),
+          cancelled: true,
+        };
+        setConversation(prev => [...prev, cancelledTurn]);
+        if (currentId !== null) {
+          queryClient.setQueryData<Animation>([`/api/animations/${currentId}`], prev =>
+            prev && { ...prev, conversation: [...(prev.conversation ?? []), cancelledTurn] }
+          );
         }
-      ]);
+        return;
+      }
+      setFailedAttempt({
+        prompt: variables.description,
+        message: error.message,
+        modelResponse: null,
+        timestamp: new Date(),
+      });
+    },
+    onSettled: () => {
+      abortRef.current = null;
+      setProgress(null);
+    },
+  });
+
+  const selectVariantMutation = useMutation({
+    mutationFn: async (variant: AnimationVersion) => {
+      const response = await apiRequest(
+        "POST",
+        `/api/animations/${variant.animationId}/versions/${variant.version}/select`,
+      );
+      return response.json() as Promise<Animation>;
+    },
+    onSuccess: (data) => {
+      setAnimation(data);
+      setConversation(data.conversation ?? []);
+      queryClient.setQueryData([`/api/animations/${data.id}`], data);
     },
     onError: (error: Error) => {
-      setConversation(prev => [...prev,
-        {
-          role: "user",
-          content: form.getValues("description"),
-          timestamp: new Date(),
-        },
-        {
-          role: "assistant",
-          content: `Error: ${error.message}`,
-          timestamp: new Date(),
-        }
-      ]);
+      toast({
+        variant: "destructive",
+        title: "Failed to select variant",
+        description: error.message,
+      });
+    },
+  });
+
+  // Parameter and repeat changes are applied to the current animation without asking the model
+  const retimeMutation = useMutation({
+    mutationFn: async (changes: { parameters?: Partial<AnimationParams>; repeat?: RepeatMode }) => {
+      const response = await apiRequest("PATCH", `/api/animations/${currentId}`, changes);
+      return response.json() as Promise<Animation>;
+    },
+    onSuccess: (data) => {
+      setAnimation(data);
+      queryClient.setQueryData([`/api/animations/${data.id}`], data);
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Failed to apply parameters",
+        description: error.message,
+      });
     },
   });
 
+  const handleParametersCommit = (changes: Partial<AnimationParams>) => {
+    const changed = (Object.keys(changes) as (keyof AnimationParams)[])
+      .some(key => changes[key] !== animation?.parameters?.[key]);
+    if (currentId === null || !changed || mutation.isPending) return;
+    retimeMutation.mutate({ parameters: changes });
+  };
+
+  const handleRepeatChange = (next: RepeatMode) => {
+    setRepeat(next);
+    if (currentId === null || mutation.isPending) return;
+    retimeMutation.mutate({ repeat: next });
+  };
+
   const handleElementSelect = useCallback((elementId: string) => {
     // Don't allow the same element to be both animated and referenced
     if (selectionMode === 'animate' && referenceElements.includes(elementId)) {
@@ -128,6 +336,10 @@ export default function Home() {
   }, [selectionMode, selectedElements, referenceElements, toast]);
 
   const handleSendMessage = (content: string) => {
+    // Wait for a resumed session to load rather than starting a new record
+    if (animationId !== null && !savedAnimation) return;
+
+    // Follow-ups apply to the current selection too
     if (selectedElements.length === 0) {
       setConversation(prev => [...prev,
         {
@@ -144,6 +356,8 @@ export default function Home() {
       return;
     }
 
+    setFailedAttempt(null);
+    setVariants([]);
     form.setValue("description", content);
     form.handleSubmit((data) => mutation.mutate(data))();
   };
@@ -172,8 +386,21 @@ export default function Home() {
 
     try {
       const text = await file.text();
-      setOriginalSvg(text);
-      form.setValue("originalSvg", text);
+      // Strips unsafe content, and gives the elements design tools leave unnamed an id to select them by
+      const res = await apiRequest("POST", "/api/svg/normalize", { svgContent: text });
+      const { svg, stripped } = (await res.json()) as NormalizedSvg;
+      if (stripped.length) {
+        toast({
+          title: "Unsafe content was removed from the SVG",
+          description: describeStripped(stripped),
+        });
+      }
+      setAnimation(null);
+      setFailedAttempt(null);
+      setVariants([]);
+      setParameterOverrides({});
+      setOriginalSvg(svg);
+      form.setValue("originalSvg", svg);
       setSelectedElements([]);
       setReferenceElements([]);
       setConversation([]);
@@ -189,11 +416,26 @@ export default function Home() {
   return (
     <div className="container mx-auto py-8 px-4">
       <div className="space-y-8">
-        <div>
-          <h1 className="text-4xl font-bold mb-2">SVG Animation Generator</h1>
-          <p className="text-muted-foreground">
-            Upload an SVG file, select elements to animate, and describe how you want them animated
-          </p>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-4xl font-bold mb-2">SVG Animation Generator</h1>
+            <p className="text-muted-foreground">
+              Upload an SVG file, select elements to animate, and describe how you want them animated
+            </p>
+            {animation && (
+              <div className="flex items-center gap-2 mt-4">
+                <h2 className="text-xl font-semibold">{animation.title || animation.description}</h2>
+                <AnimationActions
+                  animation={animation}
+                  onDuplicated={(copy) => setLocation(`/animations/${copy.id}`)}
+                  onDeleted={() => setLocation("/gallery")}
+                />
+              </div>
+            )}
+          </div>
+          <Button asChild variant="outline">
+            <Link href="/gallery">Gallery</Link>
+          </Button>
         </div>
 
         <div className="bg-muted p-4 rounded-lg">
@@ -240,17 +482,33 @@ export default function Home() {
               referenceElements={referenceElements}
               selectionMode={selectionMode}
             />
+
+            <AnimationParamsPanel
+              value={parameters}
+              onChange={(changes) => setParameterOverrides(prev => ({ ...prev, ...changes }))}
+              onCommit={handleParametersCommit}
+              repeat={repeat}
+              onRepeatChange={handleRepeatChange}
+              disabled={mutation.isPending}
+            />
           </div>
 
           <ChatInterface
             messages={conversation}
             onSendMessage={handleSendMessage}
+            failedAttempt={failedAttempt}
+            onRetry={() => failedAttempt && handleSendMessage(failedAttempt.prompt)}
             isLoading={mutation.isPending}
-            animatedSvg={mutation.data?.animatedSvg}
+            progress={progress}
+            onCancel={() => abortRef.current?.abort()}
+            variants={variants}
+            onSelectVariant={(variant) => selectVariantMutation.mutate(variant)}
+            variantCount={variantCount}
+            onVariantCountChange={setVariantCount}
+            animatedSvg={animation?.animatedSvg}
             originalSvg={originalSvg}
             selectedElements={selectedElements}
             referenceElements={referenceElements}
-            setLoopAnimation={setLoopAnimation} // Pass the setter function
           />
         </div>
 
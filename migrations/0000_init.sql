@@ -0,0 +1,42 @@
+-- Databases created with db:push before migrations existed already have the animations
+-- table, so this baseline only creates or adds what is missing
+CREATE TABLE IF NOT EXISTS "animation_versions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"animation_id" integer NOT NULL,
+	"version" integer NOT NULL,
+	"animated_svg" text NOT NULL,
+	"parameters" jsonb,
+	"prompt" text NOT NULL,
+	"explanation" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "animations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"original_svg" text NOT NULL,
+	"description" text NOT NULL,
+	"selected_elements" text[],
+	"reference_elements" text[],
+	"loop" boolean DEFAULT true NOT NULL,
+	"animated_svg" text,
+	"parameters" jsonb,
+	"conversation" jsonb,
+	"explanation" text,
+	"error" text,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "animations" ADD COLUMN IF NOT EXISTS "reference_elements" text[];--> statement-breakpoint
+DO $$ BEGIN
+	-- Pushed databases that already moved to the repeat column don't get loop back
+	IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'animations' AND column_name = 'repeat') THEN
+		ALTER TABLE "animations" ADD COLUMN IF NOT EXISTS "loop" boolean DEFAULT true NOT NULL;
+	END IF;
+END $$;--> statement-breakpoint
+DO $$ BEGIN
+	ALTER TABLE "animation_versions" ADD CONSTRAINT "animation_versions_animation_id_animations_id_fk" FOREIGN KEY ("animation_id") REFERENCES "public"."animations"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+	WHEN duplicate_object THEN null;
+END $$;--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "animation_versions_animation_version_idx" ON "animation_versions" USING btree ("animation_id","version");
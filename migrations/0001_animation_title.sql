@@ -0,0 +1 @@
+ALTER TABLE "animations" ADD COLUMN IF NOT EXISTS "title" text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "animations" ADD COLUMN IF NOT EXISTS "error_details" jsonb;
\ No newline at end of file
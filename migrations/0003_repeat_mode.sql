@@ -0,0 +1,7 @@
+ALTER TABLE "animations" ADD COLUMN IF NOT EXISTS "repeat" jsonb DEFAULT '{"mode":"indefinite"}'::jsonb NOT NULL;--> statement-breakpoint
+DO $$ BEGIN
+	IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'animations' AND column_name = 'loop') THEN
+		UPDATE "animations" SET "repeat" = '{"mode":"once"}'::jsonb WHERE "loop" = false;
+	END IF;
+END $$;--> statement-breakpoint
+ALTER TABLE "animations" DROP COLUMN IF EXISTS "loop";
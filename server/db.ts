@@ -5,14 +5,12 @@ import * as schema from "@shared/schema";
 
 neonConfig.webSocketConstructor = ws;
 
-if (!process.env.DATABASE_URL) {
-  throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?",
-  );
+export function createDb(connectionString: string) {
+  const pool = new Pool({ connectionString });
+  return drizzle(pool, { schema });
 }
 
-export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle(pool, { schema });
+export type Database = ReturnType<typeof createDb>;
 
 // Export tables for convenience
-export const animations = schema.animations;
\ No newline at end of file
+export const animations = schema.animations;
@@ -1,10 +1,5 @@
-import OpenAI from "openai";
-
-if (!process.env.OPENAI_API_KEY) {
-  throw new Error("Missing OPENAI_API_KEY environment variable");
-}
-
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+import { getModelProvider } from "./services/providers";
+import { countTokens } from "./services/svg-compaction";
 
 function cleanupSvg(svg: string): string {
   // Remove comments
@@ -96,10 +91,7 @@ export async function generateSvgAnimation(
       ? selectedElements.map(id => `#${id}`).join(', ')
       : 'all elements';
 
-    // Token estimation
-    const svgTokens = Math.ceil(cleanedSvg.length / 3);
-    const descriptionTokens = Math.ceil(description.length / 4);
-    const totalTokens = svgTokens + descriptionTokens;
+    const totalTokens = countTokens(cleanedSvg) + countTokens(description);
 
     // GPT-4's context window is 8192 tokens, we need to leave room for:
     // - System message (~200 tokens)
@@ -111,8 +103,7 @@ export async function generateSvgAnimation(
       throw new Error("SVG file is too complex. Please simplify the SVG or break it into smaller parts.");
     }
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4",
+    const generatedSvg = await getModelProvider().complete({
       messages: [
         {
           role: "system",
@@ -133,10 +124,9 @@ ${cleanedSvg}`
         }
       ],
       temperature: 0.7,
-      max_tokens: 2000,
+      maxTokens: 2000,
     });
 
-    const generatedSvg = response.choices[0].message.content;
     if (!generatedSvg) {
       throw new Error("No SVG animation generated");
     }
@@ -155,7 +145,7 @@ ${cleanedSvg}`
 
     return validatedSvg;
   } catch (error: any) {
-    console.error("OpenAI API Error:", error);
+    console.error("Model API Error:", error);
     throw new Error(`Failed to generate animation: ${error?.message || 'Unknown error'}`);
   }
 }
\ No newline at end of file
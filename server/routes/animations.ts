@@ -1,47 +1,171 @@
 import { Router } from 'express';
-import { db } from '../db';
-import { animations, insertAnimationSchema } from '@shared/schema';
-import { generateAnimation } from '../services/openai';
-import { eq } from 'drizzle-orm';
-import { extractSelectedElements } from '../services/openai';
+import {
+  animationParamsSchema,
+  insertAnimationSchema,
+  listAnimationsQuerySchema,
+  updateAnimationSchema,
+  type AnimationList,
+  type AnimationVersion,
+  type GenerationError,
+  type VersionDiff
+} from '@shared/schema';
+import { storage, type AnimationUpdate } from '../storage';
+import {
+  AnimationCancelledError,
+  AnimationGenerationError,
+  generateAnimationVariants,
+  type AnimationResponse
+} from '../services/openai';
+import { diffSmilElements, reapplyAnimationParams } from '../utils/svg';
+import { createResponder } from '../utils/event-stream';
+import { extractSelectedElements } from '../utils/svg-extraction';
+import { sanitizeSvg } from '../services/svg-sanitizer';
 
 const router = Router();
 
+function toGenerationError(prompt: string, error: unknown): GenerationError {
+  return {
+    prompt,
+    message: error instanceof Error ? error.message : String(error),
+    modelResponse: error instanceof AnimationGenerationError ? error.modelResponse : null,
+    timestamp: new Date()
+  };
+}
+
+// Record every generated variant as a version; the first one is applied to the animation
+async function createVariantVersions(
+  animationId: number,
+  prompt: string,
+  variants: AnimationResponse[]
+): Promise<AnimationVersion[]> {
+  // One at a time, version numbers are assigned from the latest existing one
+  const versions: AnimationVersion[] = [];
+  for (const variant of variants) {
+    versions.push(await storage.createVersion({
+      animationId,
+      animatedSvg: variant.animatedSvg,
+      parameters: variant.suggestedParams,
+      prompt,
+      explanation: variant.explanation
+    }));
+  }
+  return versions;
+}
+
 // Get preview of selected elements
 router.post('/preview', async (req, res) => {
   try {
     const { svgContent, selectedElements = [], referenceElements = [] } = req.body;
-    const allElements = [...selectedElements, ...referenceElements];
-    const previewSvg = extractSelectedElements(svgContent, allElements);
-    res.json({ preview: previewSvg });
+    const allElements: string[] = [...selectedElements, ...referenceElements];
+    const { svg, elementIds, bounds } = extractSelectedElements(svgContent, allElements);
+    const debug = {
+      elementIds,
+      missing: allElements.filter(id => !elementIds.includes(id)),
+      bounds
+    };
+    res.json({ preview: { svg, debug: JSON.stringify(debug, null, 2) } });
   } catch (error) {
     console.error('Preview generation error:', error);
     res.status(400).json({ error: 'Failed to generate preview' });
   }
 });
 
-// Create a new animation
+// List saved animations
+router.get('/', async (req, res) => {
+  try {
+    const query = listAnimationsQuerySchema.parse(req.query);
+    const { items, total } = await storage.listAnimations(query);
+
+    const list: AnimationList = {
+      // Conversations can get long, they're only returned by GET /:id
+      items: items.map(({ conversation, ...summary }) => summary),
+      total,
+      page: query.page,
+      pageSize: query.pageSize
+    };
+    res.json(list);
+  } catch (error: unknown) {
+    console.error('Error listing animations:', error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    res.status(400).json({ error: errorMessage });
+  }
+});
+
+// Get a single animation including its conversation
+router.get('/:id', async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid animation id' });
+    }
+
+    const animation = await storage.getAnimation(id);
+    if (!animation) {
+      return res.status(404).json({ error: 'Animation not found' });
+    }
+
+    res.json(animation);
+  } catch (error: unknown) {
+    console.error('Error fetching animation:', error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    res.status(500).json({ error: errorMessage });
+  }
+});
+
+// Create a new animation, streaming progress events when requested with `Accept: text/event-stream`
 router.post('/', async (req, res) => {
+  const reply = createResponder(req, res);
   try {
     // Validate request body
     const parsedBody = insertAnimationSchema.parse(req.body);
-    const { loop = true } = req.body; // Extract loop parameter with default true
+    const { repeat = { mode: 'indefinite' } } = parsedBody;
+    // Uploads are sanitized already, this covers SVGs posted by other clients
+    const { svg: originalSvg, stripped } = sanitizeSvg(parsedBody.originalSvg);
+    const record = {
+      title: parsedBody.title,
+      originalSvg,
+      description: parsedBody.description,
+      selectedElements: parsedBody.selectedElements,
+      referenceElements: parsedBody.referenceElements,
+      repeat
+    };
 
     // Generate initial animation
-    const animationResult = await generateAnimation({
-      svgContent: parsedBody.originalSvg,
-      selectedElements: parsedBody.selectedElements || [],
-      referenceElements: parsedBody.referenceElements || [],
-      description: parsedBody.description,
-      parameters: parsedBody.parameters,
-      loop, // Pass loop parameter to animation generator
-    });
+    let variants: AnimationResponse[];
+    try {
+      variants = await generateAnimationVariants({
+        svgContent: originalSvg,
+        selectedElements: parsedBody.selectedElements || [],
+        referenceElements: parsedBody.referenceElements || [],
+        description: parsedBody.description,
+        parameters: parsedBody.parameters,
+        repeat,
+        onProgress: reply.progress,
+        signal: reply.signal,
+      }, parsedBody.variants ?? 1);
+    } catch (error: unknown) {
+      if (error instanceof AnimationCancelledError) {
+        // A fresh session has no conversation to record the cancelled turn in
+        console.log('Animation generation cancelled before the animation was created');
+        return;
+      }
+      console.error('Error generating animation:', error);
+      // Keep the failed attempt so the client can show it and retry
+      const failure = toGenerationError(parsedBody.description, error);
+      const animation = await storage.createAnimation({
+        ...record,
+        error: failure.message,
+        errorDetails: failure
+      });
+      return reply.send({ error: failure.message, animation }, 502);
+    }
 
-    // Insert into database
-    const [animation] = await db.insert(animations).values({
-      ...parsedBody,
+    const [animationResult] = variants;
+    const animation = await storage.createAnimation({
+      ...record,
       animatedSvg: animationResult.animatedSvg,
       parameters: animationResult.suggestedParams,
+      explanation: animationResult.explanation,
       conversation: [{
         role: 'user',
         content: parsedBody.description,
@@ -51,70 +175,375 @@ router.post('/', async (req, res) => {
         content: animationResult.explanation,
         timestamp: new Date()
       }]
-    }).returning();
+    });
+    const versions = await createVariantVersions(animation.id, parsedBody.description, variants);
 
-    res.json(animation);
+    reply.send({
+      ...animation,
+      droppedAnimations: animationResult.droppedAnimations,
+      strippedContent: [...stripped, ...animationResult.strippedContent],
+      ...(versions.length > 1 && { variants: versions })
+    });
   } catch (error: unknown) {
     console.error('Error creating animation:', error);
     const errorMessage = error instanceof Error ? error.message : String(error);
-    res.status(400).json({ error: errorMessage });
+    reply.send({ error: errorMessage }, 400);
   }
 });
 
-// Update existing animation
+// Update existing animation, streaming progress events like POST /
 router.patch('/:id', async (req, res) => {
+  const reply = createResponder(req, res);
   try {
     const id = parseInt(req.params.id);
-    const { description, parameters, loop = true } = req.body;
+    const {
+      title,
+      description,
+      parameters,
+      repeat,
+      base,
+      variants: variantCount,
+      ...selection
+    } = updateAnimationSchema.parse(req.body);
+    if (isNaN(id)) {
+      return reply.send({ error: 'Invalid animation id' }, 400);
+    }
 
     // Get existing animation
-    const [existingAnimation] = await db
-      .select()
-      .from(animations)
-      .where(eq(animations.id, id));
+    const existingAnimation = await storage.getAnimation(id);
 
     if (!existingAnimation) {
-      return res.status(404).json({ error: 'Animation not found' });
+      return reply.send({ error: 'Animation not found' }, 404);
     }
 
+    // Renaming, parameter and repeat changes don't need a new generation
+    if (!description) {
+      if (title === undefined && parameters === undefined && repeat === undefined) {
+        return reply.send({ error: 'Nothing to update' }, 400);
+      }
+
+      const changes: AnimationUpdate = {};
+      if (title !== undefined) {
+        changes.title = title || null;
+      }
+      if (parameters || repeat) {
+        const nextParameters = parameters
+          ? animationParamsSchema.parse({ ...existingAnimation.parameters, ...parameters })
+          : existingAnimation.parameters;
+        if (existingAnimation.animatedSvg) {
+          changes.animatedSvg = reapplyAnimationParams(existingAnimation.animatedSvg, {
+            previous: existingAnimation.parameters,
+            parameters: nextParameters ?? {},
+            repeat: repeat ?? existingAnimation.repeat
+          });
+        }
+        changes.parameters = nextParameters;
+        changes.repeat = repeat ?? existingAnimation.repeat;
+      }
+      const animation = await storage.updateAnimation(id, changes);
+
+      // Keep the version history in step with the SVG the record holds
+      if (changes.animatedSvg && changes.animatedSvg !== existingAnimation.animatedSvg) {
+        await storage.createVersion({
+          animationId: id,
+          animatedSvg: changes.animatedSvg,
+          parameters: animation.parameters,
+          prompt: 'Adjust animation parameters',
+          explanation: animation.explanation
+        });
+      }
+      return reply.send(animation);
+    }
+
+    const previousSvg = base === 'previous' ? existingAnimation.animatedSvg : null;
+    const repeatMode = repeat ?? existingAnimation.repeat;
+    const selectedElements = selection.selectedElements ?? existingAnimation.selectedElements ?? [];
+    const referenceElements = selection.referenceElements ?? existingAnimation.referenceElements ?? [];
+
     // Generate updated animation
-    const animationResult = await generateAnimation({
-      svgContent: existingAnimation.originalSvg,
-      selectedElements: existingAnimation.selectedElements || [],
-      referenceElements: existingAnimation.referenceElements || [],
-      description,
-      parameters,
-      conversation: existingAnimation.conversation || [],
-      loop, // Pass loop parameter
-    });
+    let variants: AnimationResponse[];
+    try {
+      variants = await generateAnimationVariants({
+        svgContent: previousSvg ?? existingAnimation.originalSvg,
+        selectedElements,
+        referenceElements,
+        description,
+        parameters,
+        conversation: existingAnimation.conversation || [],
+        repeat: repeatMode,
+        refine: previousSvg !== null,
+        previousParameters: previousSvg !== null ? existingAnimation.parameters : null,
+        onProgress: reply.progress,
+        signal: reply.signal,
+      }, variantCount ?? 1);
+    } catch (error: unknown) {
+      if (error instanceof AnimationCancelledError) {
+        console.log(`Animation generation cancelled for animation ${id}`);
+        await storage.appendConversation(id, [{
+          role: 'user',
+          content: description,
+          timestamp: new Date(),
+          cancelled: true
+        }]);
+        return;
+      }
+      console.error('Error generating animation:', error);
+      const failure = toGenerationError(description, error);
+      const animation = await storage.updateAnimationError(id, failure);
+      return reply.send({ error: failure.message, animation }, 502);
+    }
 
     // Update animation
-    const [updatedAnimation] = await db
-      .update(animations)
-      .set({
-        animatedSvg: animationResult.animatedSvg,
-        parameters: animationResult.suggestedParams,
-        conversation: [
-          ...(existingAnimation.conversation || []),
-          {
-            role: 'user',
-            content: description,
-            timestamp: new Date()
-          },
-          {
-            role: 'assistant',
-            content: animationResult.explanation,
-            timestamp: new Date()
-          }
-        ]
-      })
-      .where(eq(animations.id, id))
-      .returning();
-
-    res.json(updatedAnimation);
+    const [animationResult] = variants;
+    await storage.updateAnimation(id, {
+      animatedSvg: animationResult.animatedSvg,
+      parameters: animationResult.suggestedParams,
+      explanation: animationResult.explanation,
+      repeat: repeatMode,
+      selectedElements,
+      referenceElements,
+      error: null,
+      errorDetails: null,
+      ...(title !== undefined && { title: title || null })
+    });
+    const versions = await createVariantVersions(id, description, variants);
+    const updatedAnimation = await storage.appendConversation(id, [
+      {
+        role: 'user',
+        content: description,
+        timestamp: new Date()
+      },
+      {
+        role: 'assistant',
+        content: animationResult.explanation,
+        timestamp: new Date()
+      }
+    ]);
+
+    reply.send({
+      ...updatedAnimation,
+      droppedAnimations: animationResult.droppedAnimations,
+      strippedContent: animationResult.strippedContent,
+      ...(versions.length > 1 && { variants: versions })
+    });
   } catch (error: unknown) {
     console.error('Error updating animation:', error);
     const errorMessage = error instanceof Error ? error.message : String(error);
+    reply.send({ error: errorMessage }, 400);
+  }
+});
+
+// Delete an animation and its version history
+router.delete('/:id', async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid animation id' });
+    }
+
+    const deleted = await storage.deleteAnimation(id);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Animation not found' });
+    }
+
+    res.status(204).end();
+  } catch (error: unknown) {
+    console.error('Error deleting animation:', error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    res.status(500).json({ error: errorMessage });
+  }
+});
+
+// Fork an animation into a new record that starts with an empty conversation
+router.post('/:id/duplicate', async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid animation id' });
+    }
+
+    const source = await storage.getAnimation(id);
+    if (!source) {
+      return res.status(404).json({ error: 'Animation not found' });
+    }
+
+    const animation = await storage.createAnimation({
+      title: `${source.title || source.description} (copy)`,
+      originalSvg: source.originalSvg,
+      description: source.description,
+      selectedElements: source.selectedElements,
+      referenceElements: source.referenceElements,
+      repeat: source.repeat,
+      animatedSvg: source.animatedSvg,
+      parameters: source.parameters,
+      explanation: source.explanation,
+      conversation: []
+    });
+    if (animation.animatedSvg) {
+      await storage.createVersion({
+        animationId: animation.id,
+        animatedSvg: animation.animatedSvg,
+        parameters: animation.parameters,
+        prompt: `Duplicate of animation ${source.id}`,
+        explanation: animation.explanation
+      });
+    }
+
+    res.json(animation);
+  } catch (error: unknown) {
+    console.error('Error duplicating animation:', error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    res.status(400).json({ error: errorMessage });
+  }
+});
+
+// List every generated version of an animation
+router.get('/:id/versions', async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid animation id' });
+    }
+
+    const animation = await storage.getAnimation(id);
+    if (!animation) {
+      return res.status(404).json({ error: 'Animation not found' });
+    }
+
+    res.json(await storage.listVersions(id));
+  } catch (error: unknown) {
+    console.error('Error listing versions:', error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    res.status(500).json({ error: errorMessage });
+  }
+});
+
+// Get a single version
+router.get('/:id/versions/:version', async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    const versionNumber = parseInt(req.params.version);
+    if (isNaN(id) || isNaN(versionNumber)) {
+      return res.status(400).json({ error: 'Invalid animation id or version' });
+    }
+
+    const version = await storage.getVersion(id, versionNumber);
+    if (!version) {
+      return res.status(404).json({ error: 'Version not found' });
+    }
+
+    res.json(version);
+  } catch (error: unknown) {
+    console.error('Error fetching version:', error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    res.status(500).json({ error: errorMessage });
+  }
+});
+
+// Diff the SMIL elements of a version against another one (defaults to the previous version)
+router.get('/:id/versions/:version/diff', async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    const toVersion = parseInt(req.params.version);
+    const fromVersion = req.query.against ? parseInt(String(req.query.against)) : toVersion - 1;
+    if (isNaN(id) || isNaN(toVersion) || isNaN(fromVersion)) {
+      return res.status(400).json({ error: 'Invalid animation id or version' });
+    }
+
+    const [to, from] = await Promise.all([
+      storage.getVersion(id, toVersion),
+      storage.getVersion(id, fromVersion)
+    ]);
+    if (!to || !from) {
+      return res.status(404).json({ error: 'Version not found' });
+    }
+
+    const diff: VersionDiff = {
+      from: from.version,
+      to: to.version,
+      ...diffSmilElements(from.animatedSvg, to.animatedSvg)
+    };
+    res.json(diff);
+  } catch (error: unknown) {
+    console.error('Error diffing versions:', error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    res.status(400).json({ error: errorMessage });
+  }
+});
+
+// Revert an animation to a previous version, recording the revert as a new version
+router.post('/:id/versions/:version/revert', async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    const versionNumber = parseInt(req.params.version);
+    if (isNaN(id) || isNaN(versionNumber)) {
+      return res.status(400).json({ error: 'Invalid animation id or version' });
+    }
+
+    const version = await storage.getVersion(id, versionNumber);
+    if (!version) {
+      return res.status(404).json({ error: 'Version not found' });
+    }
+
+    const animation = await storage.updateAnimation(id, {
+      animatedSvg: version.animatedSvg,
+      parameters: version.parameters,
+      explanation: version.explanation,
+      error: null,
+      errorDetails: null
+    });
+    await storage.createVersion({
+      animationId: id,
+      animatedSvg: version.animatedSvg,
+      parameters: version.parameters,
+      prompt: `Revert to version ${version.version}`,
+      explanation: version.explanation
+    });
+
+    res.json(animation);
+  } catch (error: unknown) {
+    console.error('Error reverting animation:', error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    res.status(400).json({ error: errorMessage });
+  }
+});
+
+// Make another variant of the latest turn the current animation, without recording a new version
+router.post('/:id/versions/:version/select', async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    const versionNumber = parseInt(req.params.version);
+    if (isNaN(id) || isNaN(versionNumber)) {
+      return res.status(400).json({ error: 'Invalid animation id or version' });
+    }
+
+    const [animation, version] = await Promise.all([
+      storage.getAnimation(id),
+      storage.getVersion(id, versionNumber)
+    ]);
+    if (!animation || !version) {
+      return res.status(404).json({ error: 'Version not found' });
+    }
+
+    // The latest reply describes the applied variant, so it follows the selection
+    const conversation = [...(animation.conversation || [])];
+    const lastReply = conversation.map(message => message.role).lastIndexOf('assistant');
+    if (lastReply >= 0 && version.explanation) {
+      conversation[lastReply] = { ...conversation[lastReply], content: version.explanation };
+    }
+
+    const updated = await storage.updateAnimation(id, {
+      animatedSvg: version.animatedSvg,
+      parameters: version.parameters,
+      explanation: version.explanation,
+      conversation,
+      error: null,
+      errorDetails: null
+    });
+    res.json(updated);
+  } catch (error: unknown) {
+    console.error('Error selecting version:', error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
     res.status(400).json({ error: errorMessage });
   }
 });
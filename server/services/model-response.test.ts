@@ -0,0 +1,124 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseModelResponse, readPartialString, validateModelResponse, type ValidationResult } from "./model-response";
+
+describe("readPartialString", () => {
+  it("returns null until the property starts", () => {
+    assert.equal(readPartialString('{"animations": [], "expl', "explanation"), null);
+  });
+
+  it("decodes the part of the string received so far", () => {
+    assert.equal(readPartialString('{"explanation": "Bounces \\"the\\" ball\\nup', "explanation"), 'Bounces "the" ball\nup');
+  });
+
+  it("waits for escape sequences to arrive in full", () => {
+    assert.equal(readPartialString('{"explanation": "caf\\u00', "explanation"), "caf");
+    assert.equal(readPartialString('{"explanation": "caf\\u00e9", "parameters": {}}', "explanation"), "café");
+  });
+});
+
+const drawing = `<svg xmlns="http://www.w3.org/2000/svg">
+  <circle id="ball" r="10"/>
+  <path id="track" d="M0 0 L100 0"/>
+</svg>`;
+
+function validate(animations: { elementId: string; animations: string[] }[]) {
+  return validateModelResponse(
+    { animations, explanation: "Moves the ball" },
+    { svgContent: drawing, selectedElements: ["ball"] }
+  );
+}
+
+function errorsOf(result: ValidationResult): string[] {
+  assert.equal(result.success, false);
+  return result.success ? [] : result.errors;
+}
+
+describe("parseModelResponse", () => {
+  it("rejects responses that are not JSON", () => {
+    const [error] = errorsOf(parseModelResponse("{animations"));
+
+    assert.match(error, /not valid JSON/);
+  });
+
+  it("reports schema failures with their path", () => {
+    const errors = errorsOf(parseModelResponse(JSON.stringify({ animations: [{ elementId: "", animations: [] }] })));
+
+    assert.deepEqual(errors.map(error => error.split(":")[0]).sort(), ["animations.0.elementId", "explanation"]);
+  });
+
+  it("leaves out the parameters the model did not choose", () => {
+    const result = parseModelResponse(JSON.stringify({ animations: [], parameters: { duration: 3 }, explanation: "Slower" }));
+
+    assert.ok(result.success);
+    assert.deepEqual(result.response.parameters, { duration: 3 });
+  });
+});
+
+describe("validateModelResponse", () => {
+  it("accepts a well-formed response", () => {
+    const result = validate([{
+      elementId: "ball",
+      animations: ['<animateMotion dur="2s"><mpath href="#track"/></animateMotion>']
+    }]);
+
+    assert.equal(result.success, true);
+  });
+
+  it("leaves animations of unselected elements to be dropped on insertion", () => {
+    const result = validate([
+      { elementId: "ball", animations: ['<set attributeName="r" to="5"/>'] },
+      { elementId: "track", animations: ['<set attributeName="r" to="5"/>'] }
+    ]);
+
+    assert.equal(result.success, true);
+  });
+
+  it("rejects elements that don't exist", () => {
+    const errors = errorsOf(validate([
+      { elementId: "ball", animations: [] },
+      { elementId: "ghost", animations: [] }
+    ]));
+
+    assert.deepEqual(errors, ["animations.1: element #ghost does not exist in the SVG"]);
+  });
+
+  it("rejects responses that animate none of the selected elements", () => {
+    const errors = errorsOf(validate([{ elementId: "track", animations: ['<set attributeName="r" to="5"/>'] }]));
+
+    assert.deepEqual(errors, ["animations: no element is one of the selected elements #ball"]);
+  });
+
+  it("rejects elements that are not SMIL", () => {
+    const [error] = errorsOf(validate([{ elementId: "ball", animations: ['<script>alert(1)</script>'] }]));
+
+    assert.match(error, /^animations\.0\.animations\.0 uses <script>/);
+  });
+
+  it("rejects snippets with more than one element", () => {
+    const [error] = errorsOf(validate([{
+      elementId: "ball",
+      animations: ['<set attributeName="r" to="5"/><set attributeName="r" to="8"/>']
+    }]));
+
+    assert.match(error, /exactly one SMIL element, found 2/);
+  });
+
+  it("reports missing required attributes", () => {
+    const errors = errorsOf(validate([{ elementId: "ball", animations: ['<animate attributeName="r"/>'] }]));
+
+    assert.deepEqual(errors, [
+      "animations.0.animations.0 <animate> is missing dur",
+      "animations.0.animations.0 <animate> is missing values or from or to or by"
+    ]);
+  });
+
+  it("reports references to elements that don't exist", () => {
+    const [error] = errorsOf(validate([{
+      elementId: "ball",
+      animations: ['<animateMotion dur="2s"><mpath href="#orbit"/></animateMotion>']
+    }]));
+
+    assert.match(error, /references #orbit which does not exist/);
+  });
+});
@@ -0,0 +1,157 @@
+import { z } from "zod";
+import { JSDOM } from "jsdom";
+import { animationParamsSchema } from "@shared/schema";
+import { SMIL_TAGS } from "../utils/svg";
+import { PATH_PLACEHOLDER_PATTERN } from "./svg-compaction";
+
+// Shape of the JSON object the model is asked to return
+export const modelResponseSchema = z.object({
+  animations: z.array(z.object({
+    elementId: z.string().min(1),
+    animations: z.array(z.string().min(1)),
+  })),
+  // Without the defaults, so parameters the model left out don't override the stored ones
+  parameters: animationParamsSchema.partial().optional(),
+  explanation: z.string().min(1),
+});
+
+export type ModelResponse = z.infer<typeof modelResponseSchema>;
+
+interface ValidationContext {
+  svgContent: string;
+  selectedElements: string[];
+}
+
+export type ValidationResult =
+  | { success: true; response: ModelResponse }
+  | { success: false; errors: string[] };
+
+// Attributes each SMIL element needs to do anything; arrays list alternatives
+// and names in angle brackets are child elements
+const REQUIRED_ATTRIBUTES: Record<string, (string | string[])[]> = {
+  animate: ['attributeName', 'dur', ['values', 'from', 'to', 'by']],
+  animateColor: ['attributeName', 'dur', ['values', 'from', 'to', 'by']],
+  animateTransform: ['type', 'dur', ['values', 'from', 'to', 'by']],
+  animateMotion: ['dur', ['path', 'values', 'from', 'to', 'by', '<mpath>']],
+  set: ['attributeName', 'to'],
+};
+
+function validateSmil(snippet: string, location: string, document: Document): string[] {
+  if (PATH_PLACEHOLDER_PATTERN.test(snippet)) {
+    return [`${location} copies an omitted path data placeholder, write out real path data instead`];
+  }
+
+  // Parse inside an <svg> so tag and attribute names keep their SVG casing
+  const fragment = new JSDOM(`<svg xmlns="http://www.w3.org/2000/svg">${snippet}</svg>`)
+    .window.document.querySelector('svg')!;
+  const elements = Array.from(fragment.children);
+
+  if (elements.length !== 1) {
+    return [`${location} must contain exactly one SMIL element, found ${elements.length}`];
+  }
+
+  const [element] = elements;
+  if (!SMIL_TAGS.includes(element.tagName)) {
+    return [`${location} uses <${element.tagName}>, allowed elements are ${SMIL_TAGS.map(tag => `<${tag}>`).join(', ')}`];
+  }
+
+  const errors: string[] = [];
+  for (const required of REQUIRED_ATTRIBUTES[element.tagName]) {
+    const alternatives = Array.isArray(required) ? required : [required];
+    const present = alternatives.some(name => name.startsWith('<')
+      ? element.querySelector(name.slice(1, -1)) !== null
+      : element.hasAttribute(name));
+    if (!present) {
+      errors.push(`${location} <${element.tagName}> is missing ${alternatives.join(' or ')}`);
+    }
+  }
+
+  // <mpath href="#id"> and friends must point at elements that exist
+  for (const node of [element, ...Array.from(element.querySelectorAll('*'))]) {
+    const href = node.getAttribute('href') ?? node.getAttribute('xlink:href');
+    if (href?.startsWith('#') && !document.getElementById(href.slice(1))) {
+      errors.push(`${location} references #${href.slice(1)} which does not exist in the SVG`);
+    }
+  }
+
+  return errors;
+}
+
+const ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+
+// Decode as much of a string property as has arrived in a partial JSON response,
+// so fields like the explanation can be shown while the model is still writing
+export function readPartialString(content: string, key: string): string | null {
+  const start = new RegExp(`"${key}"\\s*:\\s*"`).exec(content);
+  if (!start) return null;
+
+  let value = '';
+  for (let i = start.index + start[0].length; i < content.length; i++) {
+    const char = content[i];
+    if (char === '"') break;
+    if (char !== '\\') {
+      value += char;
+      continue;
+    }
+
+    // Stop at an escape sequence that has not fully arrived yet
+    const next = content[i + 1];
+    if (next === undefined) break;
+    if (next === 'u') {
+      const hex = content.slice(i + 2, i + 6);
+      if (hex.length < 4) break;
+      value += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+    } else {
+      value += ESCAPES[next] ?? next;
+      i++;
+    }
+  }
+  return value;
+}
+
+// Decode the model's JSON into the expected shape
+export function parseModelResponse(content: string): ValidationResult {
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch (error) {
+    return { success: false, errors: [`Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+
+  const parsed = modelResponseSchema.safeParse(json);
+  if (!parsed.success) {
+    return {
+      success: false,
+      errors: parsed.error.issues.map(issue => `${issue.path.join('.') || 'response'}: ${issue.message}`)
+    };
+  }
+  return { success: true, response: parsed.data };
+}
+
+// Check that every SMIL snippet of a parsed response can be inserted into the SVG
+export function validateModelResponse(response: ModelResponse, context: ValidationContext): ValidationResult {
+  const document = new JSDOM(context.svgContent).window.document;
+  const errors: string[] = [];
+
+  // Animations of unselected and reference elements are dropped and reported on insertion,
+  // but a mistyped id is worth a repair, as is a response that would insert nothing
+  response.animations.forEach(({ elementId, animations }, index) => {
+    if (!document.getElementById(elementId)) {
+      errors.push(`animations.${index}: element #${elementId} does not exist in the SVG`);
+    }
+
+    animations.forEach((snippet, snippetIndex) => {
+      errors.push(...validateSmil(snippet, `animations.${index}.animations.${snippetIndex}`, document));
+    });
+  });
+
+  if (response.animations.length > 0
+    && !response.animations.some(({ elementId }) => context.selectedElements.includes(elementId))) {
+    errors.push(`animations: no element is one of the selected elements ${context.selectedElements.map(id => `#${id}`).join(', ')}`);
+  }
+
+  return errors.length > 0
+    ? { success: false, errors }
+    : { success: true, response };
+}
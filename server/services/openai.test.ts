@@ -0,0 +1,230 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { JSDOM } from "jsdom";
+import { AnimationGenerationError, generateAnimation, generateAnimationVariants } from "./openai";
+import { FakeProvider, type AnimationModelProvider, type CompletionRequest } from "./providers";
+
+const drawing = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100">
+  <circle id="ball" cx="50" cy="50" r="10"/>
+  <rect id="floor" x="0" y="90" width="100" height="10"/>
+</svg>`;
+
+// Answers with the given responses in turn and keeps the requests it received
+class StubProvider implements AnimationModelProvider {
+  readonly name = "stub";
+  readonly requests: CompletionRequest[] = [];
+
+  constructor(private responses: string[]) {}
+
+  async complete(request: CompletionRequest): Promise<string> {
+    this.requests.push({ ...request, messages: [...request.messages] });
+    return this.responses[Math.min(this.requests.length, this.responses.length) - 1];
+  }
+}
+
+const pulse = JSON.stringify({
+  animations: [{ elementId: "ball", animations: ['<animate attributeName="opacity" values="1;0;1" dur="1s"/>'] }],
+  explanation: "Pulses the ball"
+});
+
+const missingDuration = JSON.stringify({
+  animations: [{ elementId: "ball", animations: ['<animate attributeName="opacity" values="1;0;1"/>'] }],
+  explanation: "Pulses the ball"
+});
+
+// Keeps the animations the prompt says #ball already has, like a follow-up that changes nothing
+class EchoProvider implements AnimationModelProvider {
+  readonly name = "echo";
+  readonly shown: string[] = [];
+
+  async complete(request: CompletionRequest): Promise<string> {
+    const prompt = request.messages[request.messages.length - 1].content;
+    const existing = Array.from(prompt.matchAll(/^#ball: (.*)$/gm), match => match[1]);
+    this.shown.push(...existing);
+    return JSON.stringify({ animations: [{ elementId: "ball", animations: existing }], explanation: "Unchanged" });
+  }
+}
+
+function animationsOf(svg: string, id: string): Element[] {
+  return Array.from(new JSDOM(svg).window.document.getElementById(id)!.children);
+}
+
+describe("generateAnimation", () => {
+  it("animates the selection with the fake provider", async () => {
+    const stages: string[] = [];
+    const result = await generateAnimation({
+      svgContent: drawing,
+      selectedElements: ["ball"],
+      referenceElements: ["floor"],
+      description: "Pulse the ball",
+      onProgress: event => { if (event.type === "stage") stages.push(event.stage); }
+    }, new FakeProvider());
+
+    const [pulse] = animationsOf(result.animatedSvg, "ball");
+    assert.equal(pulse.tagName, "animate");
+    assert.equal(pulse.getAttribute("attributeName"), "opacity");
+    assert.equal(animationsOf(result.animatedSvg, "floor").length, 0);
+    assert.deepEqual(result.droppedAnimations, []);
+    assert.match(result.explanation, /ball/);
+    assert.deepEqual(stages, ["extracting", "prompting", "parsing", "validating", "inserting"]);
+  });
+
+  it("drops and reports animations of elements it may not animate", async () => {
+    const set = '<set attributeName="r" to="5"/>';
+    const provider = new StubProvider([JSON.stringify({
+      animations: [
+        { elementId: "ball", animations: [set] },
+        { elementId: "floor", animations: [set] }
+      ],
+      explanation: "Shrinks everything"
+    })]);
+    const result = await generateAnimation({
+      svgContent: drawing,
+      selectedElements: ["ball"],
+      referenceElements: ["floor"],
+      description: "Shrink the ball"
+    }, provider);
+
+    assert.equal(provider.requests.length, 1);
+    assert.equal(animationsOf(result.animatedSvg, "ball").length, 1);
+    assert.deepEqual(result.droppedAnimations.map(({ elementId, reason }) => [elementId, reason]), [
+      ["floor", "reference"]
+    ]);
+  });
+
+  it("asks for a repair when the response targets mistyped ids only", async () => {
+    const mistyped = JSON.stringify({
+      animations: [{ elementId: "bal", animations: ['<set attributeName="r" to="5"/>'] }],
+      explanation: "Shrinks the ball"
+    });
+    const provider = new StubProvider([mistyped, pulse]);
+    const result = await generateAnimation({
+      svgContent: drawing,
+      selectedElements: ["ball"],
+      description: "Shrink the ball"
+    }, provider);
+
+    assert.equal(provider.requests.length, 2);
+    const repair = provider.requests[1].messages.at(-1)!;
+    assert.match(repair.content, /element #bal does not exist/);
+    assert.match(repair.content, /no element is one of the selected elements #ball/);
+    assert.equal(animationsOf(result.animatedSvg, "ball").length, 1);
+  });
+
+  it("applies the parameters it returns", async () => {
+    const result = await generateAnimation({
+      svgContent: drawing,
+      selectedElements: ["ball"],
+      description: "Pulse the ball",
+      parameters: { easing: "linear" }
+    }, new StubProvider([pulse]));
+
+    const [animation] = animationsOf(result.animatedSvg, "ball");
+    assert.deepEqual(result.suggestedParams, { duration: 1, easing: "linear", direction: "normal" });
+    assert.equal(animation.getAttribute("dur"), "1s");
+    assert.equal(animation.getAttribute("calcMode"), "linear");
+  });
+
+  it("asks the model to repair a response that fails validation", async () => {
+    const provider = new StubProvider([missingDuration, pulse]);
+    const result = await generateAnimation({
+      svgContent: drawing,
+      selectedElements: ["ball"],
+      description: "Pulse the ball"
+    }, provider);
+
+    assert.equal(provider.requests.length, 2);
+    const [, , invalid, repair] = provider.requests[1].messages;
+    assert.deepEqual(invalid, { role: "assistant", content: missingDuration });
+    assert.match(repair.content, /<animate> is missing dur/);
+    assert.equal(animationsOf(result.animatedSvg, "ball")[0].getAttribute("values"), "1;0;1");
+  });
+
+  it("only validates responses that parse", async () => {
+    const stages: string[] = [];
+    await generateAnimation({
+      svgContent: drawing,
+      selectedElements: ["ball"],
+      description: "Pulse the ball",
+      onProgress: event => { if (event.type === "stage") stages.push(event.stage); }
+    }, new StubProvider(["{animations", pulse]));
+
+    assert.deepEqual(stages, ["extracting", "prompting", "parsing", "prompting", "parsing", "validating", "inserting"]);
+  });
+
+  it("fails once the repair attempts run out", async () => {
+    const provider = new StubProvider([missingDuration]);
+
+    await assert.rejects(
+      generateAnimation({
+        svgContent: drawing,
+        selectedElements: ["ball"],
+        description: "Pulse the ball",
+        maxRepairAttempts: 1
+      }, provider),
+      (error: unknown) => {
+        assert.ok(error instanceof AnimationGenerationError);
+        assert.match(error.message, /Invalid model response: .*is missing dur/);
+        assert.equal(error.modelResponse, missingDuration);
+        return true;
+      }
+    );
+    assert.equal(provider.requests.length, 2);
+  });
+});
+
+describe("refining with a direction", () => {
+  const grow = JSON.stringify({
+    animations: [{ elementId: "ball", animations: ['<animate attributeName="r" values="10;15;20" dur="1s"/>'] }],
+    explanation: "Grows the ball"
+  });
+
+  for (const [direction, values, dur] of [["reverse", "20;15;10", "1s"], ["alternate", "10;15;20;15;10", "2s"]] as const) {
+    it(`applies ${direction} once however often the result is refined`, async () => {
+      const parameters = { duration: 1, easing: "linear", direction } as const;
+      let result = await generateAnimation({
+        svgContent: drawing,
+        selectedElements: ["ball"],
+        description: "Grow the ball",
+        parameters
+      }, new StubProvider([grow]));
+
+      const provider = new EchoProvider();
+      for (let i = 0; i < 2; i++) {
+        result = await generateAnimation({
+          svgContent: result.animatedSvg,
+          selectedElements: ["ball"],
+          description: "Keep it as it is",
+          refine: true,
+          previousParameters: result.suggestedParams
+        }, provider);
+
+        const [animation] = animationsOf(result.animatedSvg, "ball");
+        assert.equal(animation.getAttribute("values"), values);
+        assert.equal(animation.getAttribute("dur"), dur);
+        assert.deepEqual(result.suggestedParams, parameters);
+      }
+
+      // The model only ever sees the keyframes without the direction
+      assert.equal(provider.shown.length, 2);
+      for (const markup of provider.shown) {
+        assert.match(markup, /values="10;15;20"/);
+      }
+    });
+  }
+});
+
+describe("generateAnimationVariants", () => {
+  it("returns one result per requested variant", async () => {
+    const variants = await generateAnimationVariants({
+      svgContent: drawing,
+      selectedElements: ["ball"],
+      description: "Pulse the ball"
+    }, 3, new FakeProvider());
+
+    assert.equal(variants.length, 3);
+    for (const variant of variants) {
+      assert.equal(animationsOf(variant.animatedSvg, "ball").length, 1);
+    }
+  });
+});
@@ -1,12 +1,19 @@
-import OpenAI from "openai";
-import { AnimationParams, Message } from "@shared/schema";
-import { JSDOM } from "jsdom";
+import { AnimationParams, DEFAULT_ANIMATION_PARAMS, DroppedAnimation, GenerationEvent, Message, RepeatMode, StrippedContent } from "@shared/schema";
+import { collectSmilElements, insertAnimations, reapplyAnimationParams, repeatCountOf, revertAnimationDirection } from "../utils/svg";
+import { extractSelectedElements } from "../utils/svg-extraction";
+import { getModelProvider, type AnimationModelProvider, type ChatMessage } from "./providers";
+import { parseModelResponse, readPartialString, validateModelResponse, type ModelResponse } from "./model-response";
+import { compactSvg } from "./svg-compaction";
+import { sanitizeSvg } from "./svg-sanitizer";
 
-if (!process.env.OPENAI_API_KEY) {
-  throw new Error("Missing OPENAI_API_KEY environment variable");
-}
+// How many times the model gets to fix a response that fails validation
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// Tokens the SVG may take up in the prompt, leaving room for instructions, history and the response
+const SVG_TOKEN_BUDGET = Number(process.env.ANIMATION_SVG_TOKEN_BUDGET) || 12000;
 
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+// Sampling temperature of each variant so candidates differ, the first uses the provider default
+const VARIANT_TEMPERATURES = [undefined, 0.4, 1.2, 0.8];
 
 interface AnimationRequest {
   svgContent: string;
@@ -15,153 +22,99 @@ interface AnimationRequest {
   description: string;
   parameters?: Partial<AnimationParams>;
   conversation?: Message[];
-  loop?: boolean; // Add loop parameter
+  repeat?: RepeatMode;
+  refine?: boolean; // svgContent is a previous result whose SMIL the model may modify or remove
+  previousParameters?: AnimationParams | null; // Parameters the refined svgContent was generated with
+  maxRepairAttempts?: number;
+  onProgress?: (event: GenerationEvent) => void;
+  signal?: AbortSignal; // Aborts the model call when the client goes away
+  temperature?: number;
 }
 
-interface AnimationResponse {
+export interface AnimationResponse {
   animatedSvg: string;
   suggestedParams: AnimationParams;
   explanation: string;
+  droppedAnimations: DroppedAnimation[];
+  strippedContent: StrippedContent[];
 }
 
-interface AnimationElement {
-  elementId: string;
-  animations: string[];  // Array of SMIL animation elements to be added
-}
-
-function insertAnimations(svgContent: string, animationElements: AnimationElement[], loop: boolean = true): string {
-  const dom = new JSDOM(svgContent);
-  const document = dom.window.document;
-
-  // Get or create defs element for storing animation definitions
-  const svg = document.querySelector('svg');
-  if (!svg) throw new Error("Invalid SVG: no svg element found");
-
-  let defs = document.querySelector('defs');
-  if (!defs) {
-    defs = document.createElementNS('http://www.w3.org/2000/svg', 'defs');
-    svg.insertBefore(defs, svg.firstChild);
+export class AnimationGenerationError extends Error {
+  constructor(message: string, public modelResponse: string | null = null) {
+    super(message);
+    this.name = "AnimationGenerationError";
   }
-
-  // Process each element's animations
-  for (const { elementId, animations } of animationElements) {
-    const element = document.getElementById(elementId);
-    if (element) {
-      // Add each animation to the element
-      for (const animation of animations) {
-        const template = document.createElement('template');
-        template.innerHTML = animation.trim();
-        const animationElement = template.content.firstChild as Element;
-
-        // Set repeatCount based on loop parameter
-        if (loop) {
-          animationElement.setAttribute('repeatCount', 'indefinite');
-        } else {
-          // Remove any existing repeatCount or set it to "1"
-          if (animationElement.hasAttribute('repeatCount')) {
-            animationElement.setAttribute('repeatCount', '1');
-          }
-        }
-
-        element.appendChild(animationElement);
-      }
-    }
-  }
-
-  return document.querySelector('svg')?.outerHTML || '';
 }
 
-export function extractSelectedElements(svgContent: string, elementIds: string[]): { svg: string; debug: string } {
-  const dom = new JSDOM(svgContent);
-  const document = dom.window.document;
-
-  const originalSvg = document.querySelector('svg');
-  if (!originalSvg) throw new Error("Invalid SVG: no svg element found");
-
-  // Create debug info
-  const debug = {
-    originalViewBox: originalSvg.getAttribute('viewBox'),
-    originalWidth: originalSvg.getAttribute('width'),
-    originalHeight: originalSvg.getAttribute('height'),
-    elementIds
-  };
-
-  // Create a new minimal SVG with only selected elements
-  const minimalSvg = document.createElement('svg');
-  minimalSvg.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
-  if (debug.originalViewBox) minimalSvg.setAttribute('viewBox', debug.originalViewBox);
-  if (debug.originalWidth) minimalSvg.setAttribute('width', debug.originalWidth);
-  if (debug.originalHeight) minimalSvg.setAttribute('height', debug.originalHeight);
-
-  // Copy selected elements
-  for (const id of elementIds) {
-    const element = document.getElementById(id);
-    if (element) {
-      const clone = element.cloneNode(true) as Element;
-
-      // Preserve original coordinates and transforms
-      const transform = element.getAttribute('transform');
-      if (transform) {
-        clone.setAttribute('transform', transform);
-      }
-
-      // Get original element attributes that affect appearance
-      const originalStyle = element.getAttribute('data-original-style') || element.getAttribute('style') || '';
-      const originalFill = element.getAttribute('fill');
-      const originalStroke = element.getAttribute('stroke');
-
-      // Remove any highlighting styles we added
-      clone.removeAttribute('style');
-
-      // Combine original styles
-      let combinedStyles = originalStyle;
-      if (originalFill && !originalStyle.includes('fill:')) {
-        combinedStyles += `; fill: ${originalFill}`;
-      }
-      if (originalStroke && !originalStyle.includes('stroke:')) {
-        combinedStyles += `; stroke: ${originalStroke}`;
-      }
-
-      if (combinedStyles) {
-        clone.setAttribute('style', combinedStyles.replace(/^;\s*/, ''));
-      }
-
-      minimalSvg.appendChild(clone);
-    }
+export class AnimationCancelledError extends Error {
+  constructor() {
+    super("Animation generation was cancelled");
+    this.name = "AnimationCancelledError";
   }
-
-  return {
-    svg: minimalSvg.outerHTML,
-    debug: JSON.stringify(debug, null, 2)
-  };
 }
 
-export async function generateAnimation(request: AnimationRequest): Promise<AnimationResponse> {
+export async function generateAnimation(
+  request: AnimationRequest,
+  provider: AnimationModelProvider = getModelProvider()
+): Promise<AnimationResponse> {
+  let content: string | null = null;
+  const report = request.onProgress ?? (() => {});
   try {
+    report({ type: 'stage', stage: 'extracting' });
+
     // Ensure referenceElements is always an array
     const referenceElements = request.referenceElements || [];
 
-    // Get simplified SVG with debug info
-    const { svg: simplifiedSvg, debug: debugInfo } = extractSelectedElements(
-      request.svgContent, 
+    // The SMIL of a refined result already plays in the previous direction. The model works
+    // on the keyframes without it, so the direction is applied once after insertion.
+    const baseSvg = request.refine && request.previousParameters
+      ? revertAnimationDirection(request.svgContent, request.previousParameters.direction)
+      : request.svgContent;
+
+    // Only the selection is shown to the model, with the context it needs to render correctly
+    const { svg: simplifiedSvg } = extractSelectedElements(
+      baseSvg,
       [...request.selectedElements, ...referenceElements]
     );
+    const compacted = compactSvg(simplifiedSvg, SVG_TOKEN_BUDGET);
+    const placeholderContext = compacted.placeholders > 0
+      ? `
+
+Long path data was replaced with "[omitted path data #N]" to save space. Never copy these placeholders into animations and don't animate the d attribute of those paths.`
+      : '';
 
     // Include previous conversation context
-    const conversationContext = request.conversation?.map(msg => ({
+    const conversationContext = request.conversation?.filter(msg => !msg.cancelled).map(msg => ({
       role: msg.role,
       content: msg.content
     })) || [];
 
-    console.log('OpenAI Request:', {
+    // Describe the animations already present so follow-ups can build on them
+    const existingSmil = request.refine
+      ? collectSmilElements(baseSvg)
+          .filter(smil => smil.elementId && request.selectedElements.includes(smil.elementId))
+      : [];
+    const existingContext = existingSmil.length > 0
+      ? `
+
+These elements already have animations:
+${existingSmil.map(smil => `#${smil.elementId}: ${smil.markup}`).join('\n')}
+
+For every element you return, "animations" replaces ALL of its existing animations: repeat the ones to keep (modified if needed), leave out the ones to remove, and add new ones. Return an empty list to remove all of an element's animations. Elements you omit keep their current animations unchanged.`
+      : '';
+
+    console.log('Model Request:', {
+      provider: provider.name,
       selectedElements: request.selectedElements,
       referenceElements: referenceElements,
       description: request.description,
-      loop: request.loop,
-      debugInfo
+      repeat: request.repeat,
+      refine: request.refine,
+      svgTokens: compacted.tokens,
+      placeholders: compacted.placeholders
     });
 
-    const messages = [
+    const messages: ChatMessage[] = [
       {
         role: "system",
         content: `You are an expert in SVG SMIL animations. Generate animations based on these rules:
@@ -177,17 +130,14 @@ export async function generateAnimation(request: AnimationRequest): Promise<Anim
   "parameters": {
     "duration": 2,
     "easing": "ease",
-    "repeat": 0,
     "direction": "normal"
   },
   "explanation": "Brief description"
 }
 
-2. Animation looping is CRITICAL:
-   - When loop=true: ALWAYS use repeatCount="indefinite" for ALL animations
-   - When loop=false: ALWAYS use repeatCount="1" or omit repeatCount
-   - Apply this consistently across ALL animation elements
-   - Double-check all animation elements have the correct repeatCount
+2. Repetition is set on every animation after generation:
+   - Do not add repeatCount or repeatDur attributes
+   - Design each animation so one cycle reads well when it is repeated
 
 3. Animation requirements:
    - Keep all animations synchronized
@@ -200,48 +150,145 @@ export async function generateAnimation(request: AnimationRequest): Promise<Anim
         role: "user",
         content: `Animate these elements: ${request.selectedElements.join(', ')}
 Description: "${request.description}"
-Loop animations: ${request.loop ? 'yes' : 'no'}
+Repeat count: ${repeatCountOf(request.repeat ?? { mode: 'indefinite' })}
 
-The following elements should remain static (do not animate them): ${referenceElements.length > 0 ? referenceElements.join(', ') : 'none'}
+The following elements should remain static (do not animate them): ${referenceElements.length > 0 ? referenceElements.join(', ') : 'none'}${existingContext}${placeholderContext}
 
-${simplifiedSvg}`
+${compacted.svg}`
       }
     ];
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: messages as any,
-      response_format: { type: "json_object" }
-    });
-
-    const content = response.choices[0].message.content;
-    if (!content) {
-      throw new Error("No content received from OpenAI");
+    const maxRepairAttempts = request.maxRepairAttempts ?? MAX_REPAIR_ATTEMPTS;
+    let result: ModelResponse | undefined;
+    for (let attempt = 0; !result; attempt++) {
+      report({ type: 'stage', stage: 'prompting' });
+
+      // Forward the explanation as it streams in; repair attempts start it over
+      let partial = '';
+      let explanation = '';
+      content = await provider.complete({
+        messages,
+        json: true,
+        signal: request.signal,
+        temperature: request.temperature,
+        onToken: request.onProgress && (delta => {
+          partial += delta;
+          const current = readPartialString(partial, 'explanation') ?? '';
+          if (current.length > explanation.length) {
+            report({ type: 'explanation', delta: current.slice(explanation.length) });
+            explanation = current;
+          }
+        })
+      });
+
+      report({ type: 'stage', stage: 'parsing' });
+      let validation = parseModelResponse(content);
+      if (validation.success) {
+        report({ type: 'stage', stage: 'validating' });
+        validation = validateModelResponse(validation.response, {
+          svgContent: baseSvg,
+          selectedElements: request.selectedElements
+        });
+      }
+      if (validation.success) {
+        result = validation.response;
+      } else if (attempt < maxRepairAttempts) {
+        console.warn('Invalid model response, asking for a repair:', validation.errors);
+        messages.push(
+          { role: "assistant", content },
+          {
+            role: "user",
+            content: `Your response has these problems:
+${validation.errors.map(error => `- ${error}`).join('\n')}
+
+Return the complete corrected JSON object.`
+          }
+        );
+      } else {
+        throw new Error(`Invalid model response: ${validation.errors.join('; ')}`);
+      }
     }
 
-    const result = JSON.parse(content);
+    request.signal?.throwIfAborted();
 
-    // Insert the animations into the original SVG, passing the loop parameter
-    const animatedSvg = insertAnimations(request.svgContent, result.animations, request.loop);
+    // Parameters chosen by the user win over the ones the model suggested, which win over
+    // the ones a refined result had
+    const parameters: AnimationParams = {
+      ...DEFAULT_ANIMATION_PARAMS,
+      ...request.previousParameters,
+      ...result.parameters,
+      ...request.parameters
+    };
+
+    // Insert the animations into the original SVG with the requested repetition
+    report({ type: 'stage', stage: 'inserting' });
+    const { svg: insertedSvg, dropped } = insertAnimations(baseSvg, result.animations, {
+      selectedElements: request.selectedElements,
+      referenceElements,
+      repeat: request.repeat,
+      // When refining, the animations that were kept need the parameters as much as the new ones
+      parameters: request.refine ? {} : parameters,
+      replaceExisting: request.refine
+    });
+    const parameterizedSvg = request.refine
+      ? reapplyAnimationParams(insertedSvg, {
+          previous: null,
+          parameters,
+          repeat: request.repeat ?? { mode: 'indefinite' }
+        })
+      : insertedSvg;
+
+    // The result is rendered as-is by the client, so nothing the model wrote may run code
+    const { svg: animatedSvg, stripped } = sanitizeSvg(parameterizedSvg);
 
     console.log('Animation Generation Result:', {
       numAnimations: result.animations.length,
+      numDropped: dropped.length,
+      numStripped: stripped.length,
       explanation: result.explanation
     });
 
     return {
       animatedSvg,
-      suggestedParams: result.parameters || {
-        duration: 2,
-        easing: 'ease',
-        repeat: 0,
-        direction: 'normal'
-      },
-      explanation: result.explanation
+      suggestedParams: parameters,
+      explanation: result.explanation,
+      droppedAnimations: dropped,
+      strippedContent: stripped
     };
   } catch (error: unknown) {
+    if (request.signal?.aborted) {
+      throw new AnimationCancelledError();
+    }
     console.error('Animation Generation Error:', error);
     const errorMessage = error instanceof Error ? error.message : String(error);
-    throw new Error(`Failed to generate animation: ${errorMessage}`);
+    throw new AnimationGenerationError(`Failed to generate animation: ${errorMessage}`, content);
   }
-}
\ No newline at end of file
+}
+
+// Generate several candidate animations in parallel, returning the ones that succeeded in
+// request order. Fails with the first error only when every candidate failed.
+export async function generateAnimationVariants(
+  request: AnimationRequest,
+  count: number,
+  provider: AnimationModelProvider = getModelProvider()
+): Promise<AnimationResponse[]> {
+  const results = await Promise.allSettled(
+    Array.from({ length: count }, (_, index) => generateAnimation({
+      ...request,
+      temperature: request.temperature ?? VARIANT_TEMPERATURES[index % VARIANT_TEMPERATURES.length],
+      // Progress from parallel calls would interleave, so only the first candidate reports it
+      onProgress: index === 0 ? request.onProgress : undefined
+    }, provider))
+  );
+
+  const failures = results.flatMap(result => result.status === 'rejected' ? [result.reason] : []);
+  if (failures.some(error => error instanceof AnimationCancelledError)) {
+    throw new AnimationCancelledError();
+  }
+
+  const variants = results.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+  if (variants.length === 0) {
+    throw failures[0];
+  }
+  return variants;
+}
@@ -0,0 +1,43 @@
+import type { AnimationModelProvider, CompletionRequest } from "./index";
+
+// Deterministic provider for offline development and tests: pulses the opacity
+// of every element it is asked to animate
+export class FakeProvider implements AnimationModelProvider {
+  readonly name = "fake";
+
+  async complete(request: CompletionRequest): Promise<string> {
+    request.signal?.throwIfAborted();
+    const prompt = request.messages[request.messages.length - 1]?.content ?? "";
+
+    if (!request.json) {
+      // Free-form requests expect SVG back, return the one we were given unchanged
+      return prompt.match(/<svg[\s\S]*<\/svg>/)?.[0] ?? "";
+    }
+
+    const elementIds = prompt.match(/^Animate these elements: (.*)$/m)?.[1]
+      .split(",")
+      .map(id => id.trim())
+      .filter(Boolean) ?? [];
+
+    const content = JSON.stringify({
+      animations: elementIds.map(elementId => ({
+        elementId,
+        animations: [
+          '<animate attributeName="opacity" values="1;0.3;1" dur="2s" repeatCount="indefinite"/>',
+        ],
+      })),
+      parameters: {
+        duration: 2,
+        easing: "ease-in-out",
+        direction: "normal",
+      },
+      explanation: `Pulsing the opacity of ${elementIds.length > 0 ? elementIds.join(", ") : "nothing"}.`,
+    });
+
+    for (let i = 0; request.onToken && i < content.length; i += 8) {
+      request.signal?.throwIfAborted();
+      request.onToken(content.slice(i, i + 8));
+    }
+    return content;
+  }
+}
@@ -0,0 +1,59 @@
+import { OpenAIProvider, OpenAICompatibleProvider } from "./openai";
+import { FakeProvider } from "./fake";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  json?: boolean; // Ask for a JSON object response
+  temperature?: number;
+  maxTokens?: number;
+  onToken?: (delta: string) => void; // Stream the response as it is generated
+  signal?: AbortSignal;
+}
+
+export interface AnimationModelProvider {
+  readonly name: string;
+  complete(request: CompletionRequest): Promise<string>;
+}
+
+export { OpenAIProvider, OpenAICompatibleProvider, FakeProvider };
+
+function createModelProvider(): AnimationModelProvider {
+  const model = process.env.ANIMATION_MODEL;
+  const provider = process.env.ANIMATION_MODEL_PROVIDER ?? "openai";
+
+  switch (provider) {
+    case "openai":
+      if (!process.env.OPENAI_API_KEY) {
+        throw new Error(
+          "Missing OPENAI_API_KEY environment variable, set ANIMATION_MODEL_PROVIDER=fake to develop without a model"
+        );
+      }
+      return new OpenAIProvider({ apiKey: process.env.OPENAI_API_KEY, model });
+    case "openai-compatible":
+      if (!process.env.ANIMATION_MODEL_BASE_URL) {
+        throw new Error("Missing ANIMATION_MODEL_BASE_URL environment variable");
+      }
+      return new OpenAICompatibleProvider({
+        baseURL: process.env.ANIMATION_MODEL_BASE_URL,
+        apiKey: process.env.ANIMATION_MODEL_API_KEY,
+        model,
+      });
+    case "fake":
+      return new FakeProvider();
+    default:
+      throw new Error(`Unknown ANIMATION_MODEL_PROVIDER "${provider}"`);
+  }
+}
+
+let modelProvider: AnimationModelProvider | undefined;
+
+// Created on first use so a misconfigured provider fails the request, not server startup
+export function getModelProvider(): AnimationModelProvider {
+  modelProvider ??= createModelProvider();
+  return modelProvider;
+}
@@ -0,0 +1,58 @@
+import OpenAI from "openai";
+import type { AnimationModelProvider, CompletionRequest } from "./index";
+
+interface OpenAIProviderOptions {
+  apiKey: string;
+  baseURL?: string;
+  model?: string;
+}
+
+export class OpenAIProvider implements AnimationModelProvider {
+  readonly name: string = "openai";
+  protected client: OpenAI;
+  protected model: string;
+
+  constructor({ apiKey, baseURL, model = "gpt-4o" }: OpenAIProviderOptions) {
+    this.client = new OpenAI({ apiKey, baseURL });
+    this.model = model;
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    const params = {
+      model: this.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(request.json && { response_format: { type: "json_object" as const } }),
+    };
+
+    let content = "";
+    if (request.onToken) {
+      const stream = await this.client.chat.completions.create({ ...params, stream: true }, { signal: request.signal });
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          content += delta;
+          request.onToken(delta);
+        }
+      }
+    } else {
+      const response = await this.client.chat.completions.create(params, { signal: request.signal });
+      content = response.choices[0].message.content ?? "";
+    }
+
+    if (!content) {
+      throw new Error(`No content received from ${this.name}`);
+    }
+    return content;
+  }
+}
+
+// Local servers (Ollama, LM Studio, vLLM, ...) that speak the OpenAI chat completions API
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  readonly name: string = "openai-compatible";
+
+  constructor({ baseURL, apiKey = "not-needed", model = "default" }: Partial<OpenAIProviderOptions> & { baseURL: string }) {
+    super({ apiKey, baseURL, model });
+  }
+}
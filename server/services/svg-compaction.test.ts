@@ -0,0 +1,61 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { compactSvg, countTokens, SvgTooLargeError } from "./svg-compaction";
+
+const longPath = `M${Array.from({ length: 200 }, (_, i) => `${i}.123456 ${i * 2}.654321`).join(" L")} Z`;
+
+const inkscapeSvg = `<svg xmlns="http://www.w3.org/2000/svg" xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape"
+    xmlns:sodipodi="http://sodipodi.sourceforge.net/DTD/sodipodi-0.dtd" viewBox="0 0 100 100">
+  <metadata><rdf>lots of license text</rdf></metadata>
+  <sodipodi:namedview id="base" pagecolor="#ffffff"/>
+  <!-- exported by a design tool -->
+  <g id="layer1" inkscape:label="Layer 1" inkscape:groupmode="layer">
+    <circle id="ball" cx="50.123456" cy="49.987654" r="10"/>
+    <path id="outline" d="${longPath}"/>
+  </g>
+</svg>`;
+
+describe("compactSvg", () => {
+  it("strips editor metadata and leaves ids alone", () => {
+    const { svg, placeholders } = compactSvg(inkscapeSvg, 100_000);
+
+    assert.equal(placeholders, 0);
+    assert.doesNotMatch(svg, /inkscape|sodipodi|metadata|exported by/);
+    assert.match(svg, /id="layer1"/);
+    assert.match(svg, /cx="50.123456"/);
+  });
+
+  it("rounds coordinates when over budget", () => {
+    const full = compactSvg(inkscapeSvg, 100_000);
+    const { svg, tokens } = compactSvg(inkscapeSvg, full.tokens - 1);
+
+    assert.ok(tokens < full.tokens);
+    assert.match(svg, /cx="50.12"/);
+    assert.match(svg, /M0.12 0.65 L1.12 2.65/);
+  });
+
+  it("keeps small scales and stroke widths when rounding to whole numbers", () => {
+    const scaled = inkscapeSvg.replace(
+      '<circle id="ball"',
+      '<g transform="matrix(0.5 0 0 0.5 10 20) scale(0.25)"><rect id="box" stroke-width="0.4" width="3.7" height="2"/></g><circle id="ball"'
+    );
+    const { svg } = compactSvg(scaled, 150);
+
+    assert.match(svg, /cx="50"/);
+    assert.match(svg, /transform="matrix\(0.5 0 0 0.5 10 20\) scale\(0.25\)"/);
+    assert.match(svg, /stroke-width="0.4" width="4"/);
+  });
+
+  it("replaces long path data with placeholders as a last resort", () => {
+    const { svg, tokens, placeholders } = compactSvg(inkscapeSvg, 150);
+
+    assert.equal(placeholders, 1);
+    assert.match(svg, /d="\[omitted path data #1\]"/);
+    assert.ok(tokens <= 150);
+    assert.equal(tokens, countTokens(svg));
+  });
+
+  it("fails when the SVG cannot fit the budget", () => {
+    assert.throws(() => compactSvg(inkscapeSvg, 10), SvgTooLargeError);
+  });
+});
@@ -0,0 +1,133 @@
+import { JSDOM } from "jsdom";
+import { Tiktoken } from "js-tiktoken/lite";
+import o200k_base from "js-tiktoken/ranks/o200k_base";
+
+// Namespaces design tools use for their own bookkeeping, none of it affects rendering
+const EDITOR_PREFIXES = ['inkscape', 'sodipodi', 'sketch', 'serif', 'i', 'x', 'a', 'graph', 'figma'];
+
+// Attributes holding coordinates that can be rounded without visibly changing the drawing
+const COORDINATE_ATTRIBUTES = [
+  'd', 'points', 'x', 'y', 'x1', 'y1', 'x2', 'y2',
+  'cx', 'cy', 'r', 'rx', 'ry', 'fx', 'fy', 'width', 'height'
+];
+
+// Attributes whose small numbers matter as much as large ones, e.g. scale(0.25),
+// so they keep significant digits rather than decimals
+const SCALE_ATTRIBUTES = ['transform', 'stroke-width'];
+const SCALE_SIGNIFICANT_DIGITS = 3;
+
+// Path data shorter than this is kept even when the SVG is over budget
+const MIN_PLACEHOLDER_LENGTH = 200;
+
+export const PATH_PLACEHOLDER_PATTERN = /\[omitted path data #\d+\]/;
+
+export class SvgTooLargeError extends Error {
+  constructor(public tokens: number, public maxTokens: number) {
+    super(`SVG is too large for the model: ${tokens} tokens after compaction, the limit is ${maxTokens}. Select fewer elements or simplify the SVG.`);
+    this.name = "SvgTooLargeError";
+  }
+}
+
+export interface CompactedSvg {
+  svg: string;
+  tokens: number;
+  placeholders: number; // Paths whose data was replaced by a placeholder
+}
+
+let encoder: Tiktoken | undefined;
+
+// Token count with the tokenizer gpt-4o uses; close enough for other models to budget with
+export function countTokens(text: string): number {
+  encoder ??= new Tiktoken(o200k_base);
+  return encoder.encode(text).length;
+}
+
+function isEditorName(name: string): boolean {
+  const [prefix, local] = name.split(':');
+  return local !== undefined && (EDITOR_PREFIXES.includes(prefix)
+    || (prefix === 'xmlns' && EDITOR_PREFIXES.includes(local)));
+}
+
+function stripEditorData(svg: Element): void {
+  svg.querySelectorAll('metadata').forEach(element => element.remove());
+
+  for (const element of [svg, ...Array.from(svg.querySelectorAll('*'))]) {
+    if (isEditorName(element.tagName.toLowerCase())) {
+      element.remove();
+      continue;
+    }
+    for (const { name } of Array.from(element.attributes)) {
+      if (isEditorName(name)) element.removeAttribute(name);
+    }
+  }
+}
+
+const DECIMAL_PATTERN = /-?\d*\.\d+(?:e[-+]?\d+)?/gi;
+
+function roundCoordinates(svg: Element, precision: number): void {
+  const round = (number: string) => String(Number(parseFloat(number).toFixed(precision)));
+  const roundScale = (number: string) => String(Number(parseFloat(number).toPrecision(SCALE_SIGNIFICANT_DIGITS)));
+
+  for (const element of Array.from(svg.querySelectorAll('*'))) {
+    for (const [names, rounding] of [[COORDINATE_ATTRIBUTES, round], [SCALE_ATTRIBUTES, roundScale]] as const) {
+      for (const name of names) {
+        const value = element.getAttribute(name);
+        if (value) {
+          element.setAttribute(name, value.replace(DECIMAL_PATTERN, rounding));
+        }
+      }
+    }
+  }
+}
+
+function serialize(svg: Element): string {
+  return svg.outerHTML
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/>\s+</g, '><')
+    .trim();
+}
+
+// Shrinks an SVG until it fits the token budget for the prompt: drops editor metadata,
+// rounds coordinates ever more coarsely, then swaps the longest path data for placeholders.
+// The result is only shown to the model, animations are inserted into the original SVG.
+export function compactSvg(svgContent: string, maxTokens: number): CompactedSvg {
+  const document = new JSDOM(svgContent).window.document;
+  const svg = document.querySelector('svg');
+  if (!svg) throw new Error("Invalid SVG: no svg element found");
+
+  stripEditorData(svg);
+  let compacted = serialize(svg);
+  let tokens = countTokens(compacted);
+
+  for (const precision of [2, 1, 0]) {
+    if (tokens <= maxTokens) break;
+    roundCoordinates(svg, precision);
+    compacted = serialize(svg);
+    tokens = countTokens(compacted);
+  }
+
+  let placeholders = 0;
+  if (tokens > maxTokens) {
+    const paths = Array.from(svg.querySelectorAll('[d]'))
+      .filter(element => element.getAttribute('d')!.length >= MIN_PLACEHOLDER_LENGTH)
+      .sort((a, b) => b.getAttribute('d')!.length - a.getAttribute('d')!.length);
+
+    for (const path of paths) {
+      // Estimate from the characters removed rather than re-encoding after every path
+      const before = countTokens(path.getAttribute('d')!);
+      const placeholder = `[omitted path data #${++placeholders}]`;
+      path.setAttribute('d', placeholder);
+      tokens -= before - countTokens(placeholder);
+      if (tokens <= maxTokens) break;
+    }
+
+    compacted = serialize(svg);
+    tokens = countTokens(compacted);
+  }
+
+  if (tokens > maxTokens) {
+    throw new SvgTooLargeError(tokens, maxTokens);
+  }
+
+  return { svg: compacted, tokens, placeholders };
+}
@@ -0,0 +1,103 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { JSDOM } from "jsdom";
+import { sanitizeSvg } from "./svg-sanitizer";
+
+const unsafeSvg = `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" viewBox="0 0 100 100" onload="alert(1)">
+  <script>alert(2)</script>
+  <defs><circle id="dot" r="2"/></defs>
+  <a id="link" xlink:href=" javascript:alert(3)"><text>click</text></a>
+  <use id="local" href="#dot"/>
+  <use id="remote" href="https://example.com/sprites.svg#dot"/>
+  <image id="photo" href="data:image/png;base64,AAAA"/>
+  <image id="tracker" xlink:href="https://example.com/pixel.png"/>
+  <foreignObject width="10" height="10"><div>html</div></foreignObject>
+  <circle id="ball" cx="50" cy="50" r="10" onclick="alert(4)">
+    <animate attributeName="r" values="10;20;10" dur="2s" repeatCount="indefinite" onbegin="alert(5)"/>
+  </circle>
+  <a id="sneaky"><set attributeName="href" to="javascript:alert(6)"/><text>later</text></a>
+</svg>`;
+
+function parse(svg: string): Document {
+  return new JSDOM(svg).window.document;
+}
+
+describe("sanitizeSvg", () => {
+  it("removes scripts, foreignObject and external references", () => {
+    const document = parse(sanitizeSvg(unsafeSvg).svg);
+
+    assert.equal(document.querySelector("script"), null);
+    assert.equal(document.querySelector("foreignObject"), null);
+    assert.equal(document.getElementById("remote"), null);
+    assert.equal(document.getElementById("tracker"), null);
+    assert.ok(document.getElementById("local"));
+    assert.ok(document.getElementById("photo"));
+  });
+
+  it("removes event handlers and javascript links but keeps the elements", () => {
+    const { svg } = sanitizeSvg(unsafeSvg);
+
+    assert.doesNotMatch(svg, /alert/);
+    assert.equal(parse(svg).getElementById("link")!.hasAttribute("xlink:href"), false);
+    assert.equal(parse(svg).getElementById("ball")!.hasAttribute("onclick"), false);
+  });
+
+  it("keeps SMIL unless it would set a javascript link", () => {
+    const document = parse(sanitizeSvg(unsafeSvg).svg);
+
+    assert.equal(document.querySelector("#ball > animate")!.getAttribute("values"), "10;20;10");
+    assert.equal(document.querySelector("#sneaky > set"), null);
+  });
+
+  it("reports what was stripped", () => {
+    const { stripped } = sanitizeSvg(unsafeSvg);
+
+    assert.deepEqual(stripped, [
+      { elementId: null, tagName: "svg", attribute: "onload", reason: "event-handler" },
+      { elementId: null, tagName: "script", reason: "script" },
+      { elementId: "link", tagName: "a", attribute: "xlink:href", reason: "javascript-href" },
+      { elementId: "remote", tagName: "use", reason: "external-reference" },
+      { elementId: "tracker", tagName: "image", reason: "external-reference" },
+      { elementId: null, tagName: "foreignObject", reason: "foreign-object" },
+      { elementId: "ball", tagName: "circle", attribute: "onclick", reason: "event-handler" },
+      { elementId: null, tagName: "animate", attribute: "onbegin", reason: "event-handler" },
+      { elementId: null, tagName: "set", reason: "javascript-href" }
+    ]);
+  });
+
+  it("removes HTML smuggled in through desc and title", () => {
+    const { svg, stripped } = sanitizeSvg(`<svg xmlns="http://www.w3.org/2000/svg">
+      <desc><iframe srcdoc="&lt;script&gt;alert(document.domain)&lt;/script&gt;"></iframe></desc>
+      <title><iframe src="javascript:alert(1)"></iframe></title>
+      <desc><img src="https://tracker.example.com/pixel.png"></desc>
+    </svg>`);
+
+    assert.doesNotMatch(svg, /iframe|img|alert|tracker/);
+    assert.deepEqual(stripped.map(({ tagName, reason }) => [tagName, reason]), [
+      ["IFRAME", "html-element"],
+      ["IFRAME", "html-element"],
+      ["IMG", "html-element"]
+    ]);
+  });
+
+  it("removes javascript URLs and embedded documents from any URL attribute", () => {
+    const { stripped } = sanitizeSvg(`<svg xmlns="http://www.w3.org/2000/svg">
+      <a id="form" action="javascript:alert(1)" formaction="javascript:alert(2)" data="javascript:alert(3)"/>
+      <image id="inline" src="javascript:alert(4)" srcdoc="&lt;script&gt;alert(5)&lt;/script&gt;"/>
+    </svg>`);
+
+    assert.deepEqual(stripped.map(({ elementId, attribute, reason }) => [elementId, attribute, reason]), [
+      ["form", "action", "javascript-href"],
+      ["form", "formaction", "javascript-href"],
+      ["form", "data", "javascript-href"],
+      ["inline", "src", "javascript-href"],
+      ["inline", "srcdoc", "script"]
+    ]);
+  });
+
+  it("leaves a safe SVG unchanged", () => {
+    const safe = '<svg xmlns="http://www.w3.org/2000/svg"><circle id="ball" r="10"></circle></svg>';
+
+    assert.deepEqual(sanitizeSvg(safe), { svg: safe, stripped: [] });
+  });
+});
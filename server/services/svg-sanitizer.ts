@@ -0,0 +1,113 @@
+import { JSDOM } from "jsdom";
+import type { StrippedContent } from "@shared/schema";
+import { SMIL_TAGS } from "../utils/svg";
+
+// Elements that may only reference fragments of the same document
+const REFERENCING_TAGS = ['use', 'image', 'feImage'];
+
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+
+// Attributes a javascript: URL could be run from, in SVG or in HTML that slipped through
+const URL_ATTRIBUTES = ['href', 'xlink:href', 'src', 'data', 'action', 'formaction'];
+
+// SMIL attributes holding the values an animated attribute is set to
+const SMIL_VALUE_ATTRIBUTES = ['to', 'from', 'by', 'values'];
+
+export interface SanitizedSvg {
+  svg: string;
+  stripped: StrippedContent[];
+}
+
+function isScriptUrl(value: string): boolean {
+  // Browsers ignore whitespace and control characters before the scheme
+  return /^(?:javascript|vbscript):/i.test(value.replace(/[\u0000- ]/g, ''));
+}
+
+function isExternalReference(element: Element, href: string): boolean {
+  const value = href.trim();
+  if (value.startsWith('#')) return false;
+  // Images may embed their data, anything else has to be fetched
+  return element.tagName === 'use' || !/^data:image\//i.test(value);
+}
+
+function parseValues(value: string | null): string[] {
+  return value ? value.split(';') : [];
+}
+
+function hrefOf(element: Element): string | null {
+  return element.getAttribute('href') ?? element.getAttribute('xlink:href');
+}
+
+// Why an element has to go entirely, or null when only its attributes need checking
+function elementReason(element: Element): StrippedContent['reason'] | null {
+  const tagName = element.tagName;
+  if (tagName.toLowerCase() === 'script') return 'script';
+  if (tagName === 'foreignObject') return 'foreign-object';
+  // <desc> and <title> parse their content as HTML, which becomes live HTML in the page
+  if (element.namespaceURI !== SVG_NAMESPACE) return 'html-element';
+
+  if (REFERENCING_TAGS.includes(tagName)) {
+    const href = hrefOf(element);
+    if (href && isExternalReference(element, href)) return 'external-reference';
+  }
+
+  // SMIL can set the attributes that are stripped below after the page has loaded
+  if (SMIL_TAGS.includes(tagName)) {
+    const attributeName = element.getAttribute('attributeName') ?? '';
+    if (/^on/i.test(attributeName)) return 'event-handler';
+    if (URL_ATTRIBUTES.includes(attributeName)
+      && SMIL_VALUE_ATTRIBUTES.some(name => parseValues(element.getAttribute(name)).some(isScriptUrl))) {
+      return 'javascript-href';
+    }
+  }
+
+  return null;
+}
+
+// Removes everything from an SVG that could run code or load content from elsewhere
+// once it is injected into the page: scripts, event handlers, javascript: links,
+// external references, foreignObject and anything outside the SVG namespace. SMIL
+// animations are kept unless they would set one of those.
+export function sanitizeSvg(svgContent: string): SanitizedSvg {
+  const document = new JSDOM(svgContent).window.document;
+  const svg = document.querySelector('svg');
+  if (!svg) throw new Error("Invalid SVG: no svg element found");
+
+  const stripped: StrippedContent[] = [];
+  const record = (element: Element, reason: StrippedContent['reason'], attribute?: string) => {
+    stripped.push({
+      elementId: element.getAttribute('id'),
+      tagName: element.tagName,
+      ...(attribute && { attribute }),
+      reason
+    });
+  };
+
+  for (const element of [svg, ...Array.from(svg.querySelectorAll('*'))]) {
+    // Already removed along with an ancestor
+    if (!svg.contains(element)) continue;
+
+    const reason = elementReason(element);
+    if (reason) {
+      record(element, reason);
+      element.remove();
+      continue;
+    }
+
+    for (const { name, value } of Array.from(element.attributes)) {
+      if (/^on/i.test(name)) {
+        record(element, 'event-handler', name);
+        element.removeAttribute(name);
+      } else if (URL_ATTRIBUTES.includes(name) && isScriptUrl(value)) {
+        record(element, 'javascript-href', name);
+        element.removeAttribute(name);
+      } else if (name === 'srcdoc') {
+        // A whole HTML document, scripts included
+        record(element, 'script', name);
+        element.removeAttribute(name);
+      }
+    }
+  }
+
+  return { svg: svg.outerHTML, stripped };
+}
@@ -1,33 +1,62 @@
-import { animations, type Animation, type InsertAnimation } from "@shared/schema";
+import { and, asc, desc, eq, gte, lte, sql } from "drizzle-orm";
+import {
+  animations,
+  animationVersions,
+  type Animation,
+  type AnimationVersion,
+  type GenerationError,
+  type ListAnimationsQuery,
+  type Message
+} from "@shared/schema";
+import { createDb, type Database } from "./db";
+
+export type NewAnimation = typeof animations.$inferInsert;
+export type AnimationUpdate = Partial<Omit<NewAnimation, "id" | "createdAt" | "updatedAt">>;
+export type NewAnimationVersion = Omit<typeof animationVersions.$inferInsert, "id" | "version" | "createdAt">;
 
 export interface IStorage {
-  createAnimation(animation: InsertAnimation): Promise<Animation>;
+  createAnimation(animation: NewAnimation): Promise<Animation>;
   getAnimation(id: number): Promise<Animation | undefined>;
-  updateAnimation(id: number, animatedSvg: string): Promise<Animation>;
-  updateAnimationError(id: number, error: string): Promise<Animation>;
+  listAnimations(query: ListAnimationsQuery): Promise<{ items: Animation[]; total: number }>;
+  updateAnimation(id: number, changes: AnimationUpdate): Promise<Animation>;
+  appendConversation(id: number, messages: Message[]): Promise<Animation>;
+  updateAnimationError(id: number, failure: GenerationError): Promise<Animation>;
+  deleteAnimation(id: number): Promise<boolean>;
+  createVersion(version: NewAnimationVersion): Promise<AnimationVersion>;
+  listVersions(animationId: number): Promise<AnimationVersion[]>;
+  getVersion(animationId: number, version: number): Promise<AnimationVersion | undefined>;
 }
 
 export class MemStorage implements IStorage {
   private animations: Map<number, Animation>;
+  private versions: Map<number, AnimationVersion[]>;
   private currentId: number;
+  private currentVersionId: number;
 
   constructor() {
     this.animations = new Map();
+    this.versions = new Map();
     this.currentId = 1;
+    this.currentVersionId = 1;
   }
 
-  async createAnimation(insertAnimation: InsertAnimation): Promise<Animation> {
+  async createAnimation(insertAnimation: NewAnimation): Promise<Animation> {
     const id = this.currentId++;
     const now = new Date();
     const animation: Animation = {
-      ...insertAnimation,
       id,
-      animatedSvg: null,
-      error: null,
-      selectedElements: insertAnimation.selectedElements || null,
-      parameters: insertAnimation.parameters || null,
-      conversation: [],
-      explanation: null,
+      title: insertAnimation.title ?? null,
+      originalSvg: insertAnimation.originalSvg,
+      description: insertAnimation.description,
+      selectedElements: insertAnimation.selectedElements ?? null,
+      referenceElements: insertAnimation.referenceElements ?? null,
+      repeat: insertAnimation.repeat ?? { mode: 'indefinite' },
+      animatedSvg: insertAnimation.animatedSvg ?? null,
+      parameters: insertAnimation.parameters ?? null,
+      conversation: insertAnimation.conversation ?? [],
+      explanation: insertAnimation.explanation ?? null,
+      error: insertAnimation.error ?? null,
+      errorDetails: insertAnimation.errorDetails ?? null,
       createdAt: now,
       updatedAt: now
     };
@@ -39,33 +68,209 @@ export class MemStorage implements IStorage {
     return this.animations.get(id);
   }
 
-  async updateAnimation(id: number, animatedSvg: string): Promise<Animation> {
+  async listAnimations(query: ListAnimationsQuery): Promise<{ items: Animation[]; total: number }> {
+    const terms = query.search?.toLowerCase().split(/\s+/).filter(Boolean) ?? [];
+    const direction = query.order === 'asc' ? 1 : -1;
+
+    const matches = Array.from(this.animations.values())
+      .filter(animation => {
+        const text = `${animation.description} ${animation.explanation ?? ''}`.toLowerCase();
+        const createdAt = animation.createdAt?.getTime() ?? 0;
+        return terms.every(term => text.includes(term)) &&
+          (!query.from || createdAt >= query.from.getTime()) &&
+          (!query.to || createdAt <= query.to.getTime());
+      })
+      .sort((a, b) =>
+        ((a[query.sortBy]?.getTime() ?? 0) - (b[query.sortBy]?.getTime() ?? 0)) * direction ||
+        b.id - a.id
+      );
+
+    const offset = (query.page - 1) * query.pageSize;
+    return {
+      items: matches.slice(offset, offset + query.pageSize),
+      total: matches.length
+    };
+  }
+
+  async updateAnimation(id: number, changes: AnimationUpdate): Promise<Animation> {
     const animation = this.animations.get(id);
     if (!animation) throw new Error("Animation not found");
 
-    const updated = { 
-      ...animation, 
-      animatedSvg, 
-      error: null,
+    const updated = {
+      ...animation,
+      ...changes,
       updatedAt: new Date()
     };
     this.animations.set(id, updated);
     return updated;
   }
 
-  async updateAnimationError(id: number, error: string): Promise<Animation> {
+  async appendConversation(id: number, messages: Message[]): Promise<Animation> {
     const animation = this.animations.get(id);
     if (!animation) throw new Error("Animation not found");
 
-    const updated = { 
-      ...animation, 
-      error, 
-      animatedSvg: null,
-      updatedAt: new Date()
+    return this.updateAnimation(id, {
+      conversation: [...(animation.conversation || []), ...messages]
+    });
+  }
+
+  async updateAnimationError(id: number, failure: GenerationError): Promise<Animation> {
+    // The last successful animatedSvg is kept so a failed follow-up doesn't lose work
+    return this.updateAnimation(id, { error: failure.message, errorDetails: failure });
+  }
+
+  async deleteAnimation(id: number): Promise<boolean> {
+    this.versions.delete(id);
+    return this.animations.delete(id);
+  }
+
+  async createVersion(insertVersion: NewAnimationVersion): Promise<AnimationVersion> {
+    const versions = this.versions.get(insertVersion.animationId) ?? [];
+    const version: AnimationVersion = {
+      id: this.currentVersionId++,
+      animationId: insertVersion.animationId,
+      version: versions.length + 1,
+      animatedSvg: insertVersion.animatedSvg,
+      parameters: insertVersion.parameters ?? null,
+      prompt: insertVersion.prompt,
+      explanation: insertVersion.explanation ?? null,
+      createdAt: new Date()
     };
-    this.animations.set(id, updated);
-    return updated;
+    this.versions.set(insertVersion.animationId, [...versions, version]);
+    return version;
+  }
+
+  async listVersions(animationId: number): Promise<AnimationVersion[]> {
+    return this.versions.get(animationId) ?? [];
+  }
+
+  async getVersion(animationId: number, version: number): Promise<AnimationVersion | undefined> {
+    return this.versions.get(animationId)?.find(v => v.version === version);
+  }
+}
+
+export class DrizzleStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async createAnimation(insertAnimation: NewAnimation): Promise<Animation> {
+    const [animation] = await this.db
+      .insert(animations)
+      .values({
+        ...insertAnimation,
+        conversation: insertAnimation.conversation ?? []
+      })
+      .returning();
+    return animation;
+  }
+
+  async getAnimation(id: number): Promise<Animation | undefined> {
+    const [animation] = await this.db
+      .select()
+      .from(animations)
+      .where(eq(animations.id, id));
+    return animation;
+  }
+
+  async listAnimations(query: ListAnimationsQuery): Promise<{ items: Animation[]; total: number }> {
+    const where = and(
+      query.search
+        ? sql`to_tsvector('english', ${animations.description} || ' ' || coalesce(${animations.explanation}, '')) @@ plainto_tsquery('english', ${query.search})`
+        : undefined,
+      query.from ? gte(animations.createdAt, query.from) : undefined,
+      query.to ? lte(animations.createdAt, query.to) : undefined
+    );
+    const sortColumn = animations[query.sortBy];
+
+    const [items, [{ total }]] = await Promise.all([
+      this.db
+        .select()
+        .from(animations)
+        .where(where)
+        .orderBy(query.order === 'asc' ? asc(sortColumn) : desc(sortColumn), desc(animations.id))
+        .limit(query.pageSize)
+        .offset((query.page - 1) * query.pageSize),
+      this.db
+        .select({ total: sql<number>`count(*)::int` })
+        .from(animations)
+        .where(where)
+    ]);
+
+    return { items, total };
+  }
+
+  async updateAnimation(id: number, changes: AnimationUpdate): Promise<Animation> {
+    const [animation] = await this.db
+      .update(animations)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(animations.id, id))
+      .returning();
+    if (!animation) throw new Error("Animation not found");
+    return animation;
+  }
+
+  async appendConversation(id: number, messages: Message[]): Promise<Animation> {
+    // Append in a single statement so concurrent follow-ups don't drop turns
+    const [animation] = await this.db
+      .update(animations)
+      .set({
+        conversation: sql`coalesce(${animations.conversation}, '[]'::jsonb) || ${JSON.stringify(messages)}::jsonb`,
+        updatedAt: new Date()
+      })
+      .where(eq(animations.id, id))
+      .returning();
+    if (!animation) throw new Error("Animation not found");
+    return animation;
+  }
+
+  async updateAnimationError(id: number, failure: GenerationError): Promise<Animation> {
+    return this.updateAnimation(id, { error: failure.message, errorDetails: failure });
+  }
+
+  async deleteAnimation(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(animations)
+      .where(eq(animations.id, id))
+      .returning({ id: animations.id });
+    return deleted.length > 0;
+  }
+
+  async createVersion(insertVersion: NewAnimationVersion): Promise<AnimationVersion> {
+    const [version] = await this.db
+      .insert(animationVersions)
+      .values({
+        ...insertVersion,
+        version: sql`(select coalesce(max(${animationVersions.version}), 0) + 1 from ${animationVersions} where ${animationVersions.animationId} = ${insertVersion.animationId})`
+      })
+      .returning();
+    return version;
+  }
+
+  async listVersions(animationId: number): Promise<AnimationVersion[]> {
+    return this.db
+      .select()
+      .from(animationVersions)
+      .where(eq(animationVersions.animationId, animationId))
+      .orderBy(asc(animationVersions.version));
+  }
+
+  async getVersion(animationId: number, version: number): Promise<AnimationVersion | undefined> {
+    const [result] = await this.db
+      .select()
+      .from(animationVersions)
+      .where(and(
+        eq(animationVersions.animationId, animationId),
+        eq(animationVersions.version, version)
+      ));
+    return result;
+  }
+}
+
+function createStorage(): IStorage {
+  if (!process.env.DATABASE_URL) {
+    console.warn("DATABASE_URL is not set, animations will be kept in memory");
+    return new MemStorage();
   }
+  return new DrizzleStorage(createDb(process.env.DATABASE_URL));
 }
 
-export const storage = new MemStorage();
\ No newline at end of file
+export const storage = createStorage();
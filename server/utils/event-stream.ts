@@ -0,0 +1,55 @@
+import type { Request, Response } from 'express';
+import type { GenerationEvent } from '@shared/schema';
+
+// Sends a route's final response either as plain JSON or, when the client asked
+// for `text/event-stream`, as the last event of a Server-Sent Events stream
+export interface Responder {
+  // Only set when streaming, so callers can skip progress work for plain requests
+  progress?: (event: GenerationEvent) => void;
+  // Aborted when the client disconnects before the response is sent
+  signal: AbortSignal;
+  send(body: unknown, status?: number): void;
+}
+
+export function wantsEventStream(req: Request): boolean {
+  return req.headers.accept?.includes('text/event-stream') ?? false;
+}
+
+export function createResponder(req: Request, res: Response): Responder {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  const { signal } = controller;
+
+  if (!wantsEventStream(req)) {
+    return {
+      signal,
+      send: (body, status = 200) => {
+        res.status(status).json(body);
+      }
+    };
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive'
+  });
+  res.flushHeaders();
+
+  const write = (event: string, data: unknown) => {
+    // The client may have gone away mid-generation
+    if (res.writableEnded || res.destroyed) return;
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  return {
+    signal,
+    progress: event => write('progress', event),
+    send: (body, status = 200) => {
+      write(status >= 400 ? 'error' : 'result', body);
+      res.end();
+    }
+  };
+}
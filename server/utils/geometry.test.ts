@@ -0,0 +1,96 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { JSDOM } from "jsdom";
+import { applyMatrix, elementBounds, flattenPath, parseTransform, unionBounds, type Bounds } from "./geometry";
+
+function element(markup: string, id = "target"): Element {
+  const document = new JSDOM(`<svg xmlns="http://www.w3.org/2000/svg">${markup}</svg>`).window.document;
+  return document.getElementById(id)!;
+}
+
+function assertBounds(actual: Bounds | null, expected: Bounds, tolerance = 1e-6) {
+  assert.ok(actual, "expected bounds");
+  for (const key of ["minX", "minY", "maxX", "maxY"] as const) {
+    assert.ok(
+      Math.abs(actual[key] - expected[key]) <= tolerance,
+      `${key}: expected ${expected[key]}, got ${actual[key]}`
+    );
+  }
+}
+
+describe("parseTransform", () => {
+  it("composes transform functions from right to left", () => {
+    assert.deepEqual(parseTransform("translate(10 20) scale(2)"), [2, 0, 0, 2, 10, 20]);
+  });
+
+  it("rotates around a center point", () => {
+    const { x, y } = applyMatrix(parseTransform("rotate(90 10 10)"), { x: 20, y: 10 });
+    assert.deepEqual([Math.round(x), Math.round(y)], [10, 20]);
+  });
+});
+
+describe("flattenPath", () => {
+  it("resolves relative and shorthand line commands", () => {
+    assert.deepEqual(flattenPath("m10 10 h5 v5 l-5 0 z"), [
+      { x: 10, y: 10 }, { x: 15, y: 10 }, { x: 15, y: 15 }, { x: 10, y: 15 }
+    ]);
+  });
+
+  it("parses arc flags written without separators", () => {
+    const points = flattenPath("M0 0a5 5 0 1010 0");
+    assert.deepEqual(points.at(-1), { x: 10, y: 0 });
+  });
+});
+
+describe("elementBounds", () => {
+  it("follows curves instead of their control points", () => {
+    // The control points reach y=100, the curve itself only y=75
+    assertBounds(elementBounds(element('<path id="target" d="M0 0 C0 100 100 100 100 0"/>')),
+      { minX: 0, minY: 0, maxX: 100, maxY: 75 }, 0.5);
+  });
+
+  it("includes the bulge of an arc", () => {
+    assertBounds(elementBounds(element('<path id="target" d="M0 50 A50 50 0 0 1 100 50"/>')),
+      { minX: 0, minY: 0, maxX: 100, maxY: 50 }, 0.5);
+  });
+
+  it("measures basic shapes", () => {
+    assertBounds(elementBounds(element('<ellipse id="target" cx="50" cy="40" rx="20" ry="10"/>')),
+      { minX: 30, minY: 30, maxX: 70, maxY: 50 });
+    assertBounds(elementBounds(element('<polygon id="target" points="10,0 20,30 0,20"/>')),
+      { minX: 0, minY: 0, maxX: 20, maxY: 30 });
+    assertBounds(elementBounds(element('<line id="target" x1="5" y1="50" x2="-5" y2="10"/>')),
+      { minX: -5, minY: 10, maxX: 5, maxY: 50 });
+  });
+
+  it("applies transforms of nested groups", () => {
+    const group = element(`<g id="target" transform="translate(100 0)">
+      <g transform="scale(2)"><rect x="0" y="0" width="10" height="5"/></g>
+      <circle cx="0" cy="50" r="5" transform="rotate(45)"/>
+    </g>`);
+    const circleCenter = 50 * Math.SQRT1_2;
+
+    assertBounds(elementBounds(group), {
+      minX: 100 - circleCenter - 5,
+      minY: 0,
+      maxX: 120,
+      maxY: circleCenter + 5
+    });
+  });
+
+  it("places the referenced element of a use", () => {
+    const use = element('<defs><rect id="tile" width="10" height="10"/></defs><use id="target" href="#tile" x="30" y="40"/>');
+    assertBounds(elementBounds(use), { minX: 30, minY: 40, maxX: 40, maxY: 50 });
+  });
+
+  it("estimates the extent of text from its font size", () => {
+    const bounds = elementBounds(element('<text id="target" x="50" y="20" font-size="10" text-anchor="middle">abcd</text>'))!;
+    assert.equal((bounds.minX + bounds.maxX) / 2, 50);
+    assert.ok(bounds.minY < 20 && bounds.maxY > 20);
+  });
+
+  it("returns null for elements that draw nothing", () => {
+    assert.equal(elementBounds(element('<g id="target"><title>empty</title></g>')), null);
+    assert.equal(unionBounds([null, null]), null);
+  });
+});
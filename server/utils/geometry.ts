@@ -0,0 +1,453 @@
+// Geometric bounding boxes of SVG elements, computed from their attributes since
+// jsdom has no layout engine to ask for getBBox()
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+// Affine transform [a, b, c, d, e, f] as in the SVG matrix() transform function
+export type Matrix = [number, number, number, number, number, number];
+
+export const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+// Straight segments each curve is approximated with
+const CURVE_SEGMENTS = 16;
+
+// Guards against <use> elements that reference each other
+const MAX_USE_DEPTH = 8;
+
+// Elements that draw nothing themselves and are only rendered through a reference, if
+// at all. Neither they nor their content are selectable or count towards bounds.
+export const NON_RENDERED_TAGS = [
+  'defs', 'symbol', 'clipPath', 'mask', 'pattern', 'marker', 'linearGradient', 'radialGradient',
+  'filter', 'title', 'desc', 'metadata', 'style', 'script',
+  'animate', 'animateTransform', 'animateMotion', 'animateColor', 'set'
+];
+
+const NUMBER_PATTERN = /[-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/gi;
+
+// Numbers each path command takes per segment
+const COMMAND_ARITY: Record<string, number> = { M: 2, L: 2, H: 1, V: 1, C: 6, S: 4, Q: 4, T: 2, A: 7 };
+
+export function multiply([a1, b1, c1, d1, e1, f1]: Matrix, [a2, b2, c2, d2, e2, f2]: Matrix): Matrix {
+  return [
+    a1 * a2 + c1 * b2,
+    b1 * a2 + d1 * b2,
+    a1 * c2 + c1 * d2,
+    b1 * c2 + d1 * d2,
+    a1 * e2 + c1 * f2 + e1,
+    b1 * e2 + d1 * f2 + f1
+  ];
+}
+
+export function applyMatrix([a, b, c, d, e, f]: Matrix, { x, y }: Point): Point {
+  return { x: a * x + c * y + e, y: b * x + d * y + f };
+}
+
+function parseNumbers(value: string | null): number[] {
+  return (value?.match(NUMBER_PATTERN) ?? []).map(Number);
+}
+
+function numberAttribute(element: Element, name: string, fallback = 0): number {
+  const value = parseFloat(element.getAttribute(name) ?? '');
+  return Number.isFinite(value) ? value : fallback;
+}
+
+// Parses a transform attribute into a single matrix, functions apply right to left
+export function parseTransform(value: string | null): Matrix {
+  let matrix = IDENTITY;
+  for (const [, name, args] of Array.from((value ?? '').matchAll(/(\w+)\s*\(([^)]*)\)/g))) {
+    const [p0 = 0, p1, p2, p3 = 0, p4 = 0, p5 = 0] = parseNumbers(args);
+    let next: Matrix;
+    switch (name) {
+      case 'matrix':
+        next = [p0, p1 ?? 0, p2 ?? 0, p3, p4, p5];
+        break;
+      case 'translate':
+        next = [1, 0, 0, 1, p0, p1 ?? 0];
+        break;
+      case 'scale':
+        next = [p0, 0, 0, p1 ?? p0, 0, 0];
+        break;
+      case 'rotate': {
+        const angle = p0 * Math.PI / 180;
+        const [cos, sin] = [Math.cos(angle), Math.sin(angle)];
+        const [cx, cy] = [p1 ?? 0, p2 ?? 0];
+        next = [cos, sin, -sin, cos, cx - cos * cx + sin * cy, cy - sin * cx - cos * cy];
+        break;
+      }
+      case 'skewX':
+        next = [1, 0, Math.tan(p0 * Math.PI / 180), 1, 0, 0];
+        break;
+      case 'skewY':
+        next = [1, Math.tan(p0 * Math.PI / 180), 0, 1, 0, 0];
+        break;
+      default:
+        continue;
+    }
+    matrix = multiply(matrix, next);
+  }
+  return matrix;
+}
+
+// Arc arguments, where the two flags are single digits that may be written without
+// separators, e.g. `a5 5 0 105 5`
+function parseArcArguments(args: string): number[] {
+  const values: number[] = [];
+  let rest = args;
+  for (let index = 0; ; index = (index + 1) % 7) {
+    rest = rest.replace(/^[\s,]+/, '');
+    const match = index === 3 || index === 4
+      ? rest.match(/^[01]/)
+      : rest.match(/^[-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/i);
+    if (!match) return values;
+    values.push(Number(match[0]));
+    rest = rest.slice(match[0].length);
+  }
+}
+
+function sampleCurve(points: Point[], at: (t: number) => Point): void {
+  for (let i = 1; i <= CURVE_SEGMENTS; i++) {
+    points.push(at(i / CURVE_SEGMENTS));
+  }
+}
+
+function cubicAt(p0: Point, p1: Point, p2: Point, p3: Point, t: number): Point {
+  const u = 1 - t;
+  return {
+    x: u * u * u * p0.x + 3 * u * u * t * p1.x + 3 * u * t * t * p2.x + t * t * t * p3.x,
+    y: u * u * u * p0.y + 3 * u * u * t * p1.y + 3 * u * t * t * p2.y + t * t * t * p3.y
+  };
+}
+
+function quadraticAt(p0: Point, p1: Point, p2: Point, t: number): Point {
+  const u = 1 - t;
+  return {
+    x: u * u * p0.x + 2 * u * t * p1.x + t * t * p2.x,
+    y: u * u * p0.y + 2 * u * t * p1.y + t * t * p2.y
+  };
+}
+
+// Samples an elliptical arc after converting it to center parameterization
+// (SVG 1.1 implementation notes, F.6.5)
+function sampleArc(
+  points: Point[],
+  from: Point,
+  [rxArg, ryArg, rotation, largeArc, sweep]: number[],
+  to: Point
+): void {
+  let rx = Math.abs(rxArg);
+  let ry = Math.abs(ryArg);
+  if (rx === 0 || ry === 0 || (from.x === to.x && from.y === to.y)) {
+    points.push(to);
+    return;
+  }
+
+  const phi = rotation * Math.PI / 180;
+  const [cos, sin] = [Math.cos(phi), Math.sin(phi)];
+  const dx = (from.x - to.x) / 2;
+  const dy = (from.y - to.y) / 2;
+  const x1 = cos * dx + sin * dy;
+  const y1 = -sin * dx + cos * dy;
+
+  // Radii too small to reach the end point are scaled up
+  const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+  const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+  const factor = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator));
+  const cx1 = factor * rx * y1 / ry;
+  const cy1 = -factor * ry * x1 / rx;
+  const cx = cos * cx1 - sin * cy1 + (from.x + to.x) / 2;
+  const cy = sin * cx1 + cos * cy1 + (from.y + to.y) / 2;
+
+  const angle = (ux: number, uy: number, vx: number, vy: number) =>
+    Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  const start = angle(1, 0, (x1 - cx1) / rx, (y1 - cy1) / ry);
+  let delta = angle((x1 - cx1) / rx, (y1 - cy1) / ry, (-x1 - cx1) / rx, (-y1 - cy1) / ry);
+  if (!sweep && delta > 0) delta -= 2 * Math.PI;
+  if (sweep && delta < 0) delta += 2 * Math.PI;
+
+  sampleCurve(points, t => {
+    const theta = start + delta * t;
+    const x = rx * Math.cos(theta);
+    const y = ry * Math.sin(theta);
+    return { x: cos * x - sin * y + cx, y: sin * x + cos * y + cy };
+  });
+}
+
+// Flattens path data into the points of its outline, with curves and arcs approximated
+// by straight segments. Relative commands and shorthand curves are resolved.
+export function flattenPath(d: string): Point[] {
+  const points: Point[] = [];
+  let current: Point = { x: 0, y: 0 };
+  let subpathStart = current;
+  // Reflected by S and T when they follow a curve of the same kind
+  let lastControl: Point | null = null;
+  let lastCommand = '';
+
+  for (const [, letter, args] of Array.from(d.matchAll(/([MLHVCSQTAZ])([^MLHVCSQTAZ]*)/gi))) {
+    const command = letter.toUpperCase();
+    const relative = letter !== command;
+    const values = command === 'A' ? parseArcArguments(args) : parseNumbers(args);
+    const point = (x: number, y: number): Point =>
+      relative ? { x: current.x + x, y: current.y + y } : { x, y };
+    const reflected = (kinds: string): Point =>
+      lastControl && kinds.includes(lastCommand)
+        ? { x: 2 * current.x - lastControl.x, y: 2 * current.y - lastControl.y }
+        : current;
+
+    if (command === 'Z') {
+      current = subpathStart;
+      lastControl = null;
+      lastCommand = command;
+      continue;
+    }
+
+    const arity = COMMAND_ARITY[command];
+    for (let i = 0; i + arity <= values.length; i += arity) {
+      const v = values.slice(i, i + arity);
+      // Pairs after a moveto are implicit linetos
+      const effective = command === 'M' && i > 0 ? 'L' : command;
+      let next: Point;
+      let control: Point | null = null;
+
+      switch (effective) {
+        case 'M':
+          next = point(v[0], v[1]);
+          subpathStart = next;
+          points.push(next);
+          break;
+        case 'L':
+          next = point(v[0], v[1]);
+          points.push(next);
+          break;
+        case 'H':
+          next = { x: relative ? current.x + v[0] : v[0], y: current.y };
+          points.push(next);
+          break;
+        case 'V':
+          next = { x: current.x, y: relative ? current.y + v[0] : v[0] };
+          points.push(next);
+          break;
+        case 'C':
+        case 'S': {
+          const start = current;
+          const first = effective === 'C' ? point(v[0], v[1]) : reflected('CS');
+          control = effective === 'C' ? point(v[2], v[3]) : point(v[0], v[1]);
+          next = effective === 'C' ? point(v[4], v[5]) : point(v[2], v[3]);
+          const [second, end] = [control, next];
+          sampleCurve(points, t => cubicAt(start, first, second, end, t));
+          break;
+        }
+        case 'Q':
+        case 'T': {
+          const start = current;
+          control = effective === 'Q' ? point(v[0], v[1]) : reflected('QT');
+          next = effective === 'Q' ? point(v[2], v[3]) : point(v[0], v[1]);
+          const [middle, end] = [control, next];
+          sampleCurve(points, t => quadraticAt(start, middle, end, t));
+          break;
+        }
+        default:
+          next = point(v[5], v[6]);
+          sampleArc(points, current, v, next);
+      }
+
+      current = next;
+      lastControl = control;
+      lastCommand = effective;
+    }
+  }
+
+  return points;
+}
+
+// Rough extent of a text element, jsdom has no fonts to measure glyphs with
+function textPoints(element: Element): Point[] {
+  const inherited = (name: string): string | null => {
+    for (let current: Element | null = element; current; current = current.parentElement) {
+      const value = current.getAttribute(name)
+        ?? current.getAttribute('style')?.match(new RegExp(`${name}\\s*:\\s*([^;]+)`))?.[1]
+        ?? null;
+      if (value) return value.trim();
+    }
+    return null;
+  };
+
+  const text = element.textContent?.trim() ?? '';
+  if (!text) return [];
+
+  const fontSize = parseFloat(inherited('font-size') ?? '') || 16;
+  const width = text.length * fontSize * 0.6;
+  const x = parseNumbers(element.getAttribute('x'))[0] ?? 0;
+  const y = parseNumbers(element.getAttribute('y'))[0] ?? 0;
+  const anchor = inherited('text-anchor');
+  const left = anchor === 'middle' ? x - width / 2 : anchor === 'end' ? x - width : x;
+
+  return [
+    { x: left, y: y - fontSize * 0.8 },
+    { x: left + width, y: y + fontSize * 0.2 }
+  ];
+}
+
+function rectPoints(x: number, y: number, width: number, height: number): Point[] {
+  return [{ x, y }, { x: x + width, y }, { x, y: y + height }, { x: x + width, y: y + height }];
+}
+
+// Maps a nested <svg>'s viewBox into its viewport, using the default xMidYMid meet
+function viewportTransform(element: Element): Matrix {
+  const x = numberAttribute(element, 'x');
+  const y = numberAttribute(element, 'y');
+  const viewBox = parseNumbers(element.getAttribute('viewBox'));
+  const width = numberAttribute(element, 'width', NaN);
+  const height = numberAttribute(element, 'height', NaN);
+  if (viewBox.length !== 4 || !(viewBox[2] > 0 && viewBox[3] > 0) || Number.isNaN(width) || Number.isNaN(height)) {
+    return [1, 0, 0, 1, x, y];
+  }
+
+  const [minX, minY, boxWidth, boxHeight] = viewBox;
+  const scale = Math.min(width / boxWidth, height / boxHeight);
+  const offsetX = x + (width - boxWidth * scale) / 2 - minX * scale;
+  const offsetY = y + (height - boxHeight * scale) / 2 - minY * scale;
+  return [scale, 0, 0, scale, offsetX, offsetY];
+}
+
+function collectPoints(element: Element, parent: Matrix, points: Point[], depth: number): void {
+  const tagName = element.tagName;
+  if (NON_RENDERED_TAGS.includes(tagName)) return;
+
+  let matrix = multiply(parent, parseTransform(element.getAttribute('transform')));
+  const add = (local: Point[]) => points.push(...local.map(point => applyMatrix(matrix, point)));
+  const children = () => {
+    for (const child of Array.from(element.children)) {
+      collectPoints(child, matrix, points, depth);
+    }
+  };
+
+  switch (tagName) {
+    case 'g':
+    case 'a':
+    case 'switch':
+      children();
+      break;
+    case 'svg':
+      matrix = multiply(matrix, viewportTransform(element));
+      children();
+      break;
+    case 'use': {
+      const href = element.getAttribute('href') ?? element.getAttribute('xlink:href');
+      const target = href?.startsWith('#') ? element.ownerDocument.getElementById(href.slice(1)) : null;
+      if (!target || depth >= MAX_USE_DEPTH) break;
+      const placed = multiply(matrix, [1, 0, 0, 1, numberAttribute(element, 'x'), numberAttribute(element, 'y')]);
+      if (target.tagName === 'symbol') {
+        for (const child of Array.from(target.children)) {
+          collectPoints(child, placed, points, depth + 1);
+        }
+      } else {
+        collectPoints(target, placed, points, depth + 1);
+      }
+      break;
+    }
+    case 'circle':
+    case 'ellipse': {
+      const cx = numberAttribute(element, 'cx');
+      const cy = numberAttribute(element, 'cy');
+      const rx = tagName === 'circle' ? numberAttribute(element, 'r') : numberAttribute(element, 'rx');
+      const ry = tagName === 'circle' ? rx : numberAttribute(element, 'ry');
+      if (rx <= 0 || ry <= 0) break;
+      // Exact extent of the transformed ellipse along each axis
+      const [a, b, c, d] = matrix;
+      const center = applyMatrix(matrix, { x: cx, y: cy });
+      const halfWidth = Math.hypot(a * rx, c * ry);
+      const halfHeight = Math.hypot(b * rx, d * ry);
+      points.push(
+        { x: center.x - halfWidth, y: center.y - halfHeight },
+        { x: center.x + halfWidth, y: center.y + halfHeight }
+      );
+      break;
+    }
+    case 'rect':
+    case 'image':
+    case 'foreignObject': {
+      const width = numberAttribute(element, 'width');
+      const height = numberAttribute(element, 'height');
+      if (width <= 0 || height <= 0) break;
+      add(rectPoints(numberAttribute(element, 'x'), numberAttribute(element, 'y'), width, height));
+      break;
+    }
+    case 'line':
+      add([
+        { x: numberAttribute(element, 'x1'), y: numberAttribute(element, 'y1') },
+        { x: numberAttribute(element, 'x2'), y: numberAttribute(element, 'y2') }
+      ]);
+      break;
+    case 'polyline':
+    case 'polygon': {
+      const values = parseNumbers(element.getAttribute('points'));
+      const local: Point[] = [];
+      for (let i = 0; i + 1 < values.length; i += 2) {
+        local.push({ x: values[i], y: values[i + 1] });
+      }
+      add(local);
+      break;
+    }
+    case 'path':
+      add(flattenPath(element.getAttribute('d') ?? ''));
+      break;
+    case 'text':
+      add(textPoints(element));
+      break;
+  }
+}
+
+export function boundsOf(points: Point[]): Bounds | null {
+  if (points.length === 0) return null;
+  // A loop rather than Math.min(...) since detailed paths flatten to a lot of points
+  const bounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+  for (const { x, y } of points) {
+    bounds.minX = Math.min(bounds.minX, x);
+    bounds.minY = Math.min(bounds.minY, y);
+    bounds.maxX = Math.max(bounds.maxX, x);
+    bounds.maxY = Math.max(bounds.maxY, y);
+  }
+  return bounds;
+}
+
+// Transform the ancestors of an element apply to it, up to the outermost <svg>
+export function ancestorTransform(element: Element): Matrix {
+  let matrix = IDENTITY;
+  for (let ancestor = element.parentElement; ancestor; ancestor = ancestor.parentElement) {
+    const isRoot = ancestor.tagName === 'svg' && !ancestor.parentElement?.closest('svg');
+    if (isRoot) break;
+    if (ancestor.tagName === 'svg') matrix = multiply(viewportTransform(ancestor), matrix);
+    matrix = multiply(parseTransform(ancestor.getAttribute('transform')), matrix);
+  }
+  return matrix;
+}
+
+// Bounds of an element, its own transform included, in the coordinate system its
+// parent establishes multiplied by `matrix`. Null when it draws nothing.
+export function elementBounds(element: Element, matrix: Matrix = IDENTITY): Bounds | null {
+  const points: Point[] = [];
+  collectPoints(element, matrix, points, 0);
+  return boundsOf(points.filter(point => Number.isFinite(point.x) && Number.isFinite(point.y)));
+}
+
+export function unionBounds(bounds: (Bounds | null)[]): Bounds | null {
+  return boundsOf(bounds.flatMap(box => box
+    ? [{ x: box.minX, y: box.minY }, { x: box.maxX, y: box.maxY }]
+    : []));
+}
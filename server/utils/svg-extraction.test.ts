@@ -0,0 +1,116 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { JSDOM } from "jsdom";
+import { extractSelectedElements } from "./svg-extraction";
+
+const drawing = `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" viewBox="0 0 200 200" width="400" height="400">
+  <style>.accent { stroke: red; }</style>
+  <defs>
+    <linearGradient id="base"><stop offset="0" stop-color="#fff"/></linearGradient>
+    <linearGradient id="sky" xlink:href="#base"/>
+    <clipPath id="window"><rect width="50" height="50"/></clipPath>
+    <symbol id="star"><path d="M0 0 L10 10"/></symbol>
+    <radialGradient id="unused"/>
+  </defs>
+  <g id="scene" transform="translate(100 50)" fill="navy" style="stroke-width: 3">
+    <g transform="scale(2)">
+      <circle id="sun" cx="10" cy="10" r="5" fill="url(#sky)" clip-path="url(#window)"/>
+      <rect id="house" class="accent" x="0" y="20" width="20" height="10"/>
+    </g>
+  </g>
+  <use id="badge" href="#star" x="5" y="5"/>
+  <circle id="moon" cx="20" cy="20" r="5" data-original-style="opacity: 0.5" style="outline: 2px solid blue"/>
+</svg>`;
+
+function parse(svg: string): Document {
+  return new JSDOM(svg).window.document;
+}
+
+describe("extractSelectedElements", () => {
+  it("rebuilds the groups around a nested selection", () => {
+    const { svg } = extractSelectedElements(drawing, ["house"]);
+    const scale = parse(svg).getElementById("house")!.parentElement!;
+    const scene = scale.parentElement!;
+
+    assert.equal(scale.getAttribute("transform"), "scale(2)");
+    assert.equal(scene.id, "scene");
+    assert.equal(scene.getAttribute("transform"), "translate(100 50)");
+    assert.equal(scene.getAttribute("fill"), "navy");
+    assert.equal(scene.getAttribute("style"), "stroke-width: 3");
+    assert.equal(scene.parentElement!.tagName, "svg");
+  });
+
+  it("leaves out the other children of rebuilt groups", () => {
+    const document = parse(extractSelectedElements(drawing, ["house"]).svg);
+
+    assert.equal(document.getElementById("sun"), null);
+    assert.equal(document.querySelector("g[transform='scale(2)']")!.children.length, 1);
+  });
+
+  it("shares rebuilt groups between selections nested in them", () => {
+    const document = parse(extractSelectedElements(drawing, ["house", "sun"]).svg);
+
+    assert.equal(document.querySelectorAll("#scene").length, 1);
+    assert.deepEqual(
+      Array.from(document.querySelector("g[transform='scale(2)']")!.children).map(element => element.id),
+      ["sun", "house"]
+    );
+  });
+
+  it("keeps the opacity and clipping of groups with the definitions they use", () => {
+    const clipped = `<svg xmlns="http://www.w3.org/2000/svg">
+      <defs><clipPath id="frame"><rect width="10" height="10"/></clipPath></defs>
+      <g opacity="0.5" clip-path="url(#frame)"><circle id="dot" r="4"/><circle r="8"/></g>
+    </svg>`;
+    const document = parse(extractSelectedElements(clipped, ["dot"]).svg);
+    const group = document.getElementById("dot")!.parentElement!;
+
+    assert.equal(group.getAttribute("opacity"), "0.5");
+    assert.equal(group.getAttribute("clip-path"), "url(#frame)");
+    assert.ok(document.querySelector("defs > #frame"));
+  });
+
+  it("copies the root attributes and stylesheets", () => {
+    const document = parse(extractSelectedElements(drawing, ["house"]).svg);
+    const svg = document.querySelector("svg")!;
+
+    assert.equal(svg.getAttribute("viewBox"), "0 0 200 200");
+    assert.equal(svg.getAttribute("width"), "400");
+    assert.match(document.querySelector("style")!.textContent!, /\.accent/);
+  });
+
+  it("includes the definitions a selection references, and theirs", () => {
+    const document = parse(extractSelectedElements(drawing, ["sun", "badge"]).svg);
+    const ids = Array.from(document.querySelectorAll("defs > *")).map(element => element.id).sort();
+
+    assert.deepEqual(ids, ["base", "sky", "star", "window"]);
+  });
+
+  it("copies elements once and in document order", () => {
+    const { svg, elementIds } = extractSelectedElements(drawing, ["moon", "sun", "scene", "missing"]);
+    const document = parse(svg);
+
+    assert.deepEqual(elementIds, ["scene", "sun", "moon"]);
+    assert.equal(document.querySelectorAll("#sun").length, 1);
+    assert.deepEqual(
+      Array.from(document.querySelector("svg")!.children).map(element => element.id || element.tagName),
+      ["style", "defs", "scene", "moon"]
+    );
+  });
+
+  it("restores styles replaced by selection highlights", () => {
+    const moon = parse(extractSelectedElements(drawing, ["moon"]).svg).getElementById("moon")!;
+
+    assert.equal(moon.getAttribute("style"), "opacity: 0.5");
+    assert.equal(moon.hasAttribute("data-original-style"), false);
+  });
+
+  it("crops to the selection in the original coordinates", () => {
+    const { svg, bounds } = extractSelectedElements(drawing, ["house"], { crop: true, padding: 0 });
+    const root = parse(svg).querySelector("svg")!;
+
+    assert.deepEqual(bounds, { minX: 100, minY: 90, maxX: 140, maxY: 110 });
+    assert.equal(root.getAttribute("viewBox"), "100 90 40 20");
+    assert.equal(root.hasAttribute("width"), false);
+  });
+});
@@ -0,0 +1,148 @@
+import { JSDOM } from 'jsdom';
+import { ancestorTransform, elementBounds, unionBounds, type Bounds } from './geometry';
+
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+
+export interface ExtractionOptions {
+  // Fit the viewBox to the extracted elements instead of keeping the original one
+  crop?: boolean;
+  padding?: number; // Around a cropped selection, as a fraction of its larger side
+}
+
+export interface ExtractedSvg {
+  svg: string;
+  elementIds: string[]; // The requested ids that were found, in document order
+  bounds: Bounds | null; // Of the extracted elements, in the original SVG's coordinates
+}
+
+function formatNumber(value: number): string {
+  return String(Number(value.toFixed(4)));
+}
+
+// Ids an element refers to through url(#id) or a same-document href
+function referencedIds(element: Element): string[] {
+  const ids: string[] = [];
+  for (const { name, value } of Array.from(element.attributes)) {
+    for (const [, id] of Array.from(value.matchAll(/url\(\s*['"]?#([^'")\s]+)['"]?\s*\)/g))) {
+      ids.push(id);
+    }
+    if ((name === 'href' || name === 'xlink:href') && value.startsWith('#')) {
+      ids.push(value.slice(1));
+    }
+  }
+  return ids;
+}
+
+// The selection UI keeps an element's own style aside while it is highlighted
+function restoreHighlightedStyles(element: Element): void {
+  for (const highlighted of [element, ...Array.from(element.querySelectorAll('[data-original-style]'))]) {
+    const original = highlighted.getAttribute('data-original-style');
+    if (original === null) continue;
+    if (original) highlighted.setAttribute('style', original);
+    else highlighted.removeAttribute('style');
+    highlighted.removeAttribute('data-original-style');
+  }
+}
+
+// Copies the selected elements into a standalone SVG that renders them as they appear
+// in the original: the groups they are nested in are rebuilt around them, without their
+// other children, so transforms, styles, opacity and clipping still apply. The gradients,
+// clip paths, masks, symbols and other definitions they reference are included. Ids that
+// don't exist are skipped.
+export function extractSelectedElements(
+  svgContent: string,
+  elementIds: string[],
+  { crop = false, padding = 0.1 }: ExtractionOptions = {}
+): ExtractedSvg {
+  const dom = new JSDOM(svgContent);
+  const document = dom.window.document;
+
+  const originalSvg = document.querySelector('svg');
+  if (!originalSvg) throw new Error("Invalid SVG: no svg element found");
+
+  // In document order so the copies stack like the originals, leaving out elements
+  // that are already copied along with a selected ancestor
+  const elements = Array.from(new Set(elementIds))
+    .map(id => document.getElementById(id))
+    .filter((element): element is HTMLElement => element !== null && originalSvg.contains(element))
+    .sort((a, b) => a.compareDocumentPosition(b) & dom.window.Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1);
+  const selected = elements.filter(element =>
+    !elements.some(other => other !== element && other.contains(element)));
+
+  const minimalSvg = document.createElementNS(SVG_NAMESPACE, 'svg');
+  for (const { name, value } of Array.from(originalSvg.attributes)) {
+    minimalSvg.setAttribute(name, value);
+  }
+  minimalSvg.setAttribute('xmlns', SVG_NAMESPACE);
+
+  // Stylesheets may style the selection through classes
+  for (const style of Array.from(originalSvg.querySelectorAll('style'))) {
+    minimalSvg.appendChild(style.cloneNode(true));
+  }
+
+  // Copies of the ancestors, shared by selections nested in the same group
+  const chain = new Map<Element, Element>([[originalSvg, minimalSvg]]);
+  const copyOf = (ancestor: Element): Element => {
+    let copy = chain.get(ancestor);
+    if (!copy) {
+      copy = ancestor.cloneNode(false) as Element;
+      restoreHighlightedStyles(copy);
+      copyOf(ancestor.parentElement!).appendChild(copy);
+      chain.set(ancestor, copy);
+    }
+    return copy;
+  };
+
+  const boxes: (Bounds | null)[] = [];
+  for (const element of selected) {
+    boxes.push(elementBounds(element, ancestorTransform(element)));
+
+    const clone = element.cloneNode(true) as Element;
+    restoreHighlightedStyles(clone);
+    copyOf(element.parentElement!).appendChild(clone);
+  }
+
+  // Definitions the copies depend on, following references between definitions too
+  const defs = document.createElementNS(SVG_NAMESPACE, 'defs');
+  const included = new Set<Element>();
+  const pending = [minimalSvg, ...Array.from(minimalSvg.querySelectorAll('*'))];
+  while (pending.length > 0) {
+    for (const id of referencedIds(pending.pop()!)) {
+      const target = document.getElementById(id);
+      const copied = [...selected, ...Array.from(included)].some(element => element.contains(target));
+      if (!target || copied) continue;
+      included.add(target);
+      const definition = target.cloneNode(true) as Element;
+      defs.appendChild(definition);
+      pending.push(definition, ...Array.from(definition.querySelectorAll('*')));
+    }
+  }
+
+  if (defs.children.length > 0) {
+    // After the stylesheets, before the copies
+    minimalSvg.insertBefore(defs, Array.from(minimalSvg.children).find(child => child.tagName !== 'style') ?? null);
+  }
+
+  const bounds = unionBounds(boxes);
+  if (crop && bounds) {
+    const width = bounds.maxX - bounds.minX;
+    const height = bounds.maxY - bounds.minY;
+    const margin = Math.max(width, height) * padding;
+    minimalSvg.setAttribute('viewBox', [
+      bounds.minX - margin,
+      bounds.minY - margin,
+      width + margin * 2,
+      height + margin * 2
+    ].map(formatNumber).join(' '));
+    minimalSvg.setAttribute('preserveAspectRatio', 'xMidYMid meet');
+    // The crop decides the size, let the container scale it
+    minimalSvg.removeAttribute('width');
+    minimalSvg.removeAttribute('height');
+  }
+
+  return {
+    svg: minimalSvg.outerHTML,
+    elementIds: elements.map(element => element.id),
+    bounds
+  };
+}
@@ -0,0 +1,225 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { JSDOM } from "jsdom";
+import { applyAnimationParams, insertAnimations, normalizeElementIds, reapplyAnimationParams } from "./svg";
+
+const svgContent = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100">
+  <circle id="ball" cx="50" cy="50" r="10"/>
+  <rect id="floor" x="0" y="90" width="100" height="10"/>
+  <path id="cloud" d="M10 10 L20 10"/>
+</svg>`;
+
+const pulse = '<animate attributeName="opacity" values="1;0.3;1" dur="2s"/>';
+
+function smil(markup: string): Element {
+  const document = new JSDOM(`<svg xmlns="http://www.w3.org/2000/svg">${markup}</svg>`).window.document;
+  return document.querySelector("svg")!.firstElementChild!;
+}
+
+function childTags(svg: string, id: string): string[] {
+  const document = new JSDOM(svg).window.document;
+  return Array.from(document.getElementById(id)!.children).map(child => child.tagName);
+}
+
+describe("insertAnimations", () => {
+  it("appends SMIL to selected elements keeping SVG attribute casing", () => {
+    const { svg, dropped } = insertAnimations(svgContent, [
+      { elementId: "ball", animations: [pulse, '<animateTransform attributeName="transform" type="rotate" from="0" to="360" dur="1s"/>'] }
+    ], { selectedElements: ["ball"] });
+
+    assert.deepEqual(dropped, []);
+    assert.deepEqual(childTags(svg, "ball"), ["animate", "animateTransform"]);
+    assert.match(svg, /attributeName="opacity"/);
+    assert.match(svg, /repeatCount="indefinite"/);
+  });
+
+  it("applies the repeat mode as repeatCount", () => {
+    const animations = [{
+      elementId: "ball",
+      animations: ['<animate attributeName="r" values="10;20" dur="1s" repeatCount="indefinite" repeatDur="5s"/>']
+    }];
+
+    const once = insertAnimations(svgContent, animations, { selectedElements: ["ball"], repeat: { mode: "once" } }).svg;
+    assert.match(once, /repeatCount="1"/);
+    assert.doesNotMatch(once, /repeatDur/);
+
+    const times = insertAnimations(svgContent, animations, { selectedElements: ["ball"], repeat: { mode: "times", count: 3 } }).svg;
+    assert.match(times, /repeatCount="3"/);
+  });
+
+  it("drops animations targeting reference elements", () => {
+    const { svg, dropped } = insertAnimations(svgContent, [
+      { elementId: "ball", animations: [pulse] },
+      { elementId: "floor", animations: [pulse] }
+    ], { selectedElements: ["ball"], referenceElements: ["floor"] });
+
+    assert.deepEqual(childTags(svg, "floor"), []);
+    assert.deepEqual(dropped, [{ elementId: "floor", markup: pulse, reason: "reference" }]);
+  });
+
+  it("drops animations for elements outside the selection", () => {
+    const { svg, dropped } = insertAnimations(svgContent, [
+      { elementId: "cloud", animations: [pulse] }
+    ], { selectedElements: ["ball"] });
+
+    assert.deepEqual(childTags(svg, "cloud"), []);
+    assert.deepEqual(dropped, [{ elementId: "cloud", markup: pulse, reason: "not-selected" }]);
+  });
+
+  it("drops animations whose href retargets a reference element", () => {
+    const retargeted = '<animate href="#floor" attributeName="opacity" values="1;0" dur="1s"/>';
+    const { svg, dropped } = insertAnimations(svgContent, [
+      { elementId: "ball", animations: [retargeted] }
+    ], { selectedElements: ["ball"], referenceElements: ["floor"] });
+
+    assert.deepEqual(childTags(svg, "ball"), []);
+    assert.deepEqual(dropped, [{ elementId: "floor", markup: retargeted, reason: "reference" }]);
+  });
+
+  it("reports selected elements missing from the SVG and non-SMIL snippets", () => {
+    const { dropped } = insertAnimations(svgContent, [
+      { elementId: "ghost", animations: [pulse] },
+      { elementId: "ball", animations: ['<circle r="3"/>'] }
+    ], { selectedElements: ["ball", "ghost"] });
+
+    assert.deepEqual(dropped.map(({ elementId, reason }) => ({ elementId, reason })), [
+      { elementId: "ghost", reason: "not-found" },
+      { elementId: "ball", reason: "invalid" }
+    ]);
+  });
+
+  it("replaces existing SMIL only on elements it is allowed to animate", () => {
+    const animated = insertAnimations(svgContent, [
+      { elementId: "ball", animations: [pulse, pulse] }
+    ], { selectedElements: ["ball"] }).svg;
+
+    const { svg } = insertAnimations(animated, [
+      { elementId: "ball", animations: ['<set attributeName="fill" to="red"/>'] },
+      { elementId: "floor", animations: [] }
+    ], { selectedElements: ["ball"], referenceElements: ["floor"], replaceExisting: true });
+
+    assert.deepEqual(childTags(svg, "ball"), ["set"]);
+  });
+});
+
+describe("applyAnimationParams", () => {
+  it("sets the duration", () => {
+    const element = smil('<animate attributeName="r" values="10;20" dur="1s"/>');
+    applyAnimationParams(element, { duration: 2.5 });
+
+    assert.equal(element.getAttribute("dur"), "2.5s");
+    assert.equal(element.getAttribute("values"), "10;20");
+  });
+
+  it("turns easing into spline keyframes", () => {
+    const element = smil('<animate attributeName="r" values="10;20;15" dur="1s"/>');
+    applyAnimationParams(element, { easing: "ease-in" });
+
+    assert.equal(element.getAttribute("calcMode"), "spline");
+    assert.equal(element.getAttribute("keyTimes"), "0;0.5;1");
+    assert.equal(element.getAttribute("keySplines"), "0.42 0 1 1; 0.42 0 1 1");
+  });
+
+  it("reverses from/to animations", () => {
+    const element = smil('<animateTransform attributeName="transform" type="rotate" from="0 5 5" to="360 5 5" dur="1s"/>');
+    applyAnimationParams(element, { direction: "reverse" });
+
+    assert.equal(element.hasAttribute("from"), false);
+    assert.equal(element.getAttribute("values"), "360 5 5;0 5 5");
+    assert.equal(element.getAttribute("keyTimes"), "0;1");
+  });
+
+  it("plays alternate animations forwards then backwards over twice the duration", () => {
+    const element = smil('<animate attributeName="opacity" values="1;0.5;0" keyTimes="0;0.2;1" dur="2s"/>');
+    applyAnimationParams(element, { direction: "alternate" });
+
+    assert.equal(element.getAttribute("values"), "1;0.5;0;0.5;1");
+    assert.equal(element.getAttribute("keyTimes"), "0;0.1;0.5;0.9;1");
+    assert.equal(element.getAttribute("dur"), "4s");
+  });
+
+  it("reverses motion along a path with keyPoints", () => {
+    const element = smil('<animateMotion path="M0 0 L10 10" dur="1s"/>');
+    applyAnimationParams(element, { direction: "reverse", easing: "linear" });
+
+    assert.equal(element.getAttribute("keyPoints"), "1;0");
+    assert.equal(element.getAttribute("calcMode"), "linear");
+  });
+
+  it("is applied by insertAnimations", () => {
+    const { svg } = insertAnimations(svgContent, [
+      { elementId: "ball", animations: [pulse] }
+    ], { selectedElements: ["ball"], parameters: { duration: 4, easing: "linear" } });
+
+    assert.match(svg, /dur="4s"/);
+    assert.match(svg, /calcMode="linear"/);
+  });
+});
+
+describe("reapplyAnimationParams", () => {
+  it("undoes the previous direction before applying new parameters", () => {
+    const generated = insertAnimations(svgContent, [
+      { elementId: "ball", animations: ['<animate attributeName="r" values="10;20;15" dur="1s"/>'] }
+    ], { selectedElements: ["ball"], parameters: { direction: "alternate", easing: "linear" } }).svg;
+    assert.match(generated, /values="10;20;15;20;10"/);
+    assert.match(generated, /dur="2s"/);
+
+    const svg = reapplyAnimationParams(generated, {
+      previous: { duration: 1, easing: "linear", direction: "alternate" },
+      parameters: { duration: 3, easing: "ease-out", direction: "reverse" },
+      repeat: { mode: "times", count: 2 }
+    });
+
+    assert.match(svg, /values="15;20;10"/);
+    assert.match(svg, /keyTimes="0;0.5;1"/);
+    assert.match(svg, /dur="3s"/);
+    assert.match(svg, /keySplines="0 0 0.58 1; 0 0 0.58 1"/);
+    assert.match(svg, /repeatCount="2"/);
+  });
+});
+
+describe("normalizeElementIds", () => {
+  const exported = `<svg xmlns="http://www.w3.org/2000/svg" xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape">
+  <defs><clipPath id="clip"><rect width="10" height="10"/></clipPath></defs>
+  <g inkscape:label="Header">
+    <circle cx="5" cy="5" r="5"/>
+    <circle id="circle-1" cx="15" cy="5" r="5"/>
+  </g>
+  <g><circle cx="25" cy="5" r="5"/></g>
+  <path id="logo" d="M0 0 L10 10"/>
+</svg>`;
+
+  it("gives every shape and group a readable id and keeps existing ones", () => {
+    const { svg, assignedIds } = normalizeElementIds(exported);
+    const document = new JSDOM(svg).window.document;
+
+    assert.deepEqual(
+      Array.from(document.querySelectorAll("g, circle, path")).map(element => element.id),
+      ["g-header-1", "circle-2", "circle-1", "g-1", "circle-3", "logo"]
+    );
+    assert.deepEqual(Object.keys(assignedIds), ["g-header-1", "circle-2", "g-1", "circle-3"]);
+  });
+
+  it("maps assigned ids to the element in the uploaded file", () => {
+    const { assignedIds } = normalizeElementIds(exported);
+    const document = new JSDOM(exported).window.document;
+
+    const circle = document.querySelector(assignedIds["circle-3"])!;
+    assert.equal(circle.getAttribute("cx"), "25");
+  });
+
+  it("leaves elements that are only rendered through references alone", () => {
+    const { svg } = normalizeElementIds(exported);
+    const document = new JSDOM(svg).window.document;
+
+    assert.equal(document.querySelector("clipPath rect")!.hasAttribute("id"), false);
+  });
+
+  it("assigns the same ids when run again", () => {
+    const once = normalizeElementIds(exported);
+    const twice = normalizeElementIds(once.svg);
+
+    assert.equal(twice.svg, once.svg);
+    assert.deepEqual(twice.assignedIds, {});
+  });
+});
@@ -1,53 +1,407 @@
 import { JSDOM } from 'jsdom';
+import type { AnimationParams, DroppedAnimation, NormalizedSvg, RepeatMode, SmilElement } from '@shared/schema';
+import { NON_RENDERED_TAGS } from './geometry';
 
-export function extractSelectedElements(svgContent: string, elementIds: string[]): string {
-  try {
-    const dom = new JSDOM(svgContent);
-    const document = dom.window.document;
-
-    // Extract viewBox and other necessary attributes from original SVG
-    const originalSvg = document.querySelector('svg');
-    if (!originalSvg) {
-      throw new Error("Invalid SVG: no svg element found");
-    }
-
-    // Create a new minimal SVG with only selected elements
-    const minimalSvg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
-    minimalSvg.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
-
-    // Copy all attributes from original SVG
-    Array.from(originalSvg.attributes).forEach(attr => {
-      minimalSvg.setAttribute(attr.name, attr.value);
-    });
-
-    // Copy selected elements
-    for (const id of elementIds) {
-      const element = document.getElementById(id);
-      if (element) {
-        const clone = element.cloneNode(true) as Element;
-
-        // Ensure all child elements have proper SVG namespace
-        if (clone.children.length > 0) {
-          const setNamespace = (el: Element) => {
-            if (!el.namespaceURI) {
-              const newEl = document.createElementNS('http://www.w3.org/2000/svg', el.tagName.toLowerCase());
-              Array.from(el.attributes).forEach(attr => {
-                newEl.setAttribute(attr.name, attr.value);
-              });
-              el.parentNode?.replaceChild(newEl, el);
-            }
-            Array.from(el.children).forEach(setNamespace);
-          };
-          setNamespace(clone);
-        }
-
-        minimalSvg.appendChild(clone);
+export const SMIL_TAGS = ['animate', 'animateTransform', 'animateMotion', 'animateColor', 'set'];
+
+export function collectSmilElements(svgContent: string): SmilElement[] {
+  const dom = new JSDOM(svgContent);
+  const document = dom.window.document;
+
+  return Array.from(document.querySelectorAll(SMIL_TAGS.join(','))).map(element => ({
+    elementId: element.parentElement?.getAttribute('id') ?? null,
+    tagName: element.tagName,
+    markup: element.outerHTML
+  }));
+}
+
+// Compares SMIL elements as a multiset so repeated identical animations are counted
+export function diffSmilElements(fromSvg: string, toSvg: string): { added: SmilElement[]; removed: SmilElement[] } {
+  const key = (element: SmilElement) => `${element.elementId}|${element.markup}`;
+
+  const remaining = new Map<string, number>();
+  for (const element of collectSmilElements(fromSvg)) {
+    remaining.set(key(element), (remaining.get(key(element)) ?? 0) + 1);
+  }
+
+  const added: SmilElement[] = [];
+  for (const element of collectSmilElements(toSvg)) {
+    const count = remaining.get(key(element)) ?? 0;
+    if (count > 0) {
+      remaining.set(key(element), count - 1);
+    } else {
+      added.push(element);
+    }
+  }
+
+  const removed = collectSmilElements(fromSvg).filter(element => {
+    const count = remaining.get(key(element)) ?? 0;
+    if (count === 0) return false;
+    remaining.set(key(element), count - 1);
+    return true;
+  });
+
+  return { added, removed };
+}
+
+// Cubic bezier control points matching the CSS easing keywords
+const EASING_SPLINES: Record<Exclude<AnimationParams['easing'], 'linear'>, string> = {
+  'ease': '0.25 0.1 0.25 1',
+  'ease-in': '0.42 0 1 1',
+  'ease-out': '0 0 0.58 1',
+  'ease-in-out': '0.42 0 0.58 1'
+};
+
+function parseList(value: string | null): string[] {
+  return value?.split(';').map(item => item.trim()).filter(Boolean) ?? [];
+}
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 1000) / 1000);
+}
+
+// Seconds of a SMIL clock value like "2s", "500ms" or "1.5", null for forms we don't handle
+function parseDuration(value: string | null): number | null {
+  const match = value?.trim().match(/^(\d*\.?\d+)(h|min|s|ms)?$/);
+  if (!match) return null;
+  const scale = { h: 3600, min: 60, s: 1, ms: 0.001 }[match[2] ?? 's']!;
+  return parseFloat(match[1]) * scale;
+}
+
+// Reverses a spline so it eases the same way when the interval is played backwards
+function mirrorSpline(spline: string): string {
+  const [x1, y1, x2, y2] = spline.split(/[\s,]+/).map(Number);
+  return [1 - x2, 1 - y2, 1 - x1, 1 - y1].map(formatNumber).join(' ');
+}
+
+// Keyframes of a SMIL element: its values, from/to, or progress along a motion path
+interface Keyframes {
+  attribute: 'values' | 'keyPoints';
+  frames: string[];
+  times: number[];
+  splines: string[];
+}
+
+function readKeyframes(element: Element): Keyframes | null {
+  if (element.tagName === 'set') return null;
+
+  const isPathMotion = element.tagName === 'animateMotion' && !element.hasAttribute('values')
+    && !(element.hasAttribute('from') && element.hasAttribute('to'));
+  const frames = isPathMotion
+    ? (element.hasAttribute('keyPoints') ? parseList(element.getAttribute('keyPoints')) : ['0', '1'])
+    : element.hasAttribute('values')
+      ? parseList(element.getAttribute('values'))
+      : element.hasAttribute('from') && element.hasAttribute('to')
+        ? [element.getAttribute('from')!, element.getAttribute('to')!]
+        : [];
+  if (frames.length < 2) return null;
+
+  const keyTimes = parseList(element.getAttribute('keyTimes')).map(Number);
+  const splines = element.getAttribute('calcMode') === 'spline'
+    ? parseList(element.getAttribute('keySplines'))
+    : [];
+
+  return {
+    attribute: isPathMotion ? 'keyPoints' : 'values',
+    frames,
+    times: keyTimes.length === frames.length ? keyTimes : frames.map((_, i) => i / (frames.length - 1)),
+    splines: splines.length === frames.length - 1 ? splines : []
+  };
+}
+
+function writeKeyframes(element: Element, { attribute, frames, times, splines }: Keyframes): void {
+  if (splines.length) {
+    element.setAttribute('calcMode', 'spline');
+    element.setAttribute('keySplines', splines.join('; '));
+  } else {
+    element.removeAttribute('keySplines');
+    if (element.getAttribute('calcMode') === 'spline'
+      || (element.tagName === 'animateMotion' && !element.hasAttribute('calcMode'))) {
+      // Motion defaults to paced, which ignores the keyTimes written below
+      element.setAttribute('calcMode', 'linear');
+    }
+  }
+
+  element.removeAttribute('from');
+  element.removeAttribute('to');
+  element.setAttribute(attribute, frames.join(';'));
+  element.setAttribute('keyTimes', times.map(formatNumber).join(';'));
+}
+
+function reverseKeyframes(keyframes: Keyframes): void {
+  keyframes.frames.reverse();
+  keyframes.times = keyframes.times.map(t => 1 - t).reverse();
+  keyframes.splines = keyframes.splines.map(mirrorSpline).reverse();
+}
+
+function setDuration(element: Element, scale: number): void {
+  const dur = parseDuration(element.getAttribute('dur'));
+  if (dur !== null) element.setAttribute('dur', `${formatNumber(dur * scale)}s`);
+}
+
+// The SMIL repeatCount value for a repeat mode
+export function repeatCountOf(repeat: RepeatMode): string {
+  switch (repeat.mode) {
+    case 'once':
+      return '1';
+    case 'times':
+      return String(repeat.count);
+    case 'indefinite':
+      return 'indefinite';
+  }
+}
+
+function setRepeat(element: Element, repeat: RepeatMode): void {
+  // repeatDur would cut the repeat count short
+  element.removeAttribute('repeatDur');
+  element.setAttribute('repeatCount', repeatCountOf(repeat));
+}
+
+// Rewrites timing attributes of an inserted SMIL element so the animation parameters
+// govern it: dur, calcMode/keySplines for easing and the keyframe order for direction. Parameters that are missing leave the model's markup alone.
+export function applyAnimationParams(element: Element, parameters: Partial<AnimationParams>): void {
+  if (element.tagName === 'set') return;
+  const { duration, easing, direction } = parameters;
+
+  if (duration !== undefined) {
+    element.setAttribute('dur', `${formatNumber(duration)}s`);
+  }
+
+  const keyframes = readKeyframes(element);
+  if (keyframes && ((direction !== undefined && direction !== 'normal') || easing !== undefined)) {
+    if (direction === 'reverse') {
+      reverseKeyframes(keyframes);
+    } else if (direction === 'alternate') {
+      // Play forwards then backwards within one iteration, taking twice as long
+      const { frames, times, splines } = keyframes;
+      keyframes.frames = [...frames, ...frames.slice(0, -1).reverse()];
+      keyframes.times = [...times.map(t => t / 2), ...times.slice(0, -1).reverse().map(t => 1 - t / 2)];
+      keyframes.splines = splines.length ? [...splines, ...splines.map(mirrorSpline).reverse()] : [];
+      setDuration(element, 2);
+    }
+
+    if (easing === 'linear') {
+      keyframes.splines = [];
+      element.setAttribute('calcMode', 'linear');
+    } else if (easing) {
+      keyframes.splines = keyframes.frames.slice(1).map(() => EASING_SPLINES[easing]);
+    }
+    writeKeyframes(element, keyframes);
+  }
+}
+
+// Undoes the keyframe order and duration a direction gave an element
+function revertDirection(element: Element, direction: AnimationParams['direction']): void {
+  const keyframes = readKeyframes(element);
+  if (!keyframes) return;
+
+  if (direction === 'reverse') {
+    reverseKeyframes(keyframes);
+    writeKeyframes(element, keyframes);
+  } else if (direction === 'alternate' && keyframes.frames.length % 2 === 1) {
+    const count = (keyframes.frames.length + 1) / 2;
+    keyframes.frames = keyframes.frames.slice(0, count);
+    keyframes.times = keyframes.times.slice(0, count).map(t => t * 2);
+    keyframes.splines = keyframes.splines.slice(0, count - 1);
+    writeKeyframes(element, keyframes);
+    setDuration(element, 0.5);
+  }
+}
+
+// The SVG with every animation's keyframes as they were before the direction was applied
+export function revertAnimationDirection(svgContent: string, direction: AnimationParams['direction']): string {
+  const dom = new JSDOM(svgContent);
+  const document = dom.window.document;
+
+  for (const element of Array.from(document.querySelectorAll(SMIL_TAGS.join(',')))) {
+    revertDirection(element, direction);
+  }
+
+  return document.querySelector('svg')?.outerHTML || '';
+}
+
+interface ReapplyParamsOptions {
+  previous: AnimationParams | null; // Parameters the SVG was generated with
+  parameters: Partial<AnimationParams>;
+  repeat: RepeatMode;
+}
+
+// Gives every animation in an already generated SVG new parameters without asking the model
+export function reapplyAnimationParams(
+  svgContent: string,
+  { previous, parameters, repeat }: ReapplyParamsOptions
+): string {
+  const dom = new JSDOM(svgContent);
+  const document = dom.window.document;
+
+  for (const element of Array.from(document.querySelectorAll(SMIL_TAGS.join(',')))) {
+    if (previous) revertDirection(element, previous.direction);
+    setRepeat(element, repeat);
+    applyAnimationParams(element, parameters);
+  }
+
+  return document.querySelector('svg')?.outerHTML || '';
+}
+
+export interface AnimationElement {
+  elementId: string;
+  animations: string[];  // Array of SMIL animation elements to be added
+}
+
+interface InsertAnimationsOptions {
+  selectedElements: string[];
+  referenceElements?: string[];
+  repeat?: RepeatMode;
+  parameters?: Partial<AnimationParams>;
+  replaceExisting?: boolean; // Each returned list is the element's complete set of animations
+}
+
+// Inserts SMIL snippets into the SVG, refusing any that would animate something other
+// than a selected element. The model is told not to, this makes sure of it.
+export function insertAnimations(
+  svgContent: string,
+  animationElements: AnimationElement[],
+  {
+    selectedElements,
+    referenceElements = [],
+    repeat = { mode: 'indefinite' },
+    parameters = {},
+    replaceExisting = false
+  }: InsertAnimationsOptions
+): { svg: string; dropped: DroppedAnimation[] } {
+  const dom = new JSDOM(svgContent);
+  const document = dom.window.document;
+
+  // Get or create defs element for storing animation definitions
+  const svg = document.querySelector('svg');
+  if (!svg) throw new Error("Invalid SVG: no svg element found");
+
+  let defs = document.querySelector('defs');
+  if (!defs) {
+    defs = document.createElementNS('http://www.w3.org/2000/svg', 'defs');
+    svg.insertBefore(defs, svg.firstChild);
+  }
+
+  const dropped: DroppedAnimation[] = [];
+  const rejectionReason = (targetId: string): DroppedAnimation['reason'] | null => {
+    if (!document.getElementById(targetId)) return 'not-found';
+    if (referenceElements.includes(targetId)) return 'reference';
+    if (!selectedElements.includes(targetId)) return 'not-selected';
+    return null;
+  };
+
+  // Process each element's animations
+  for (const { elementId, animations } of animationElements) {
+    const reason = rejectionReason(elementId);
+    if (reason) {
+      dropped.push(...animations.map(markup => ({ elementId, markup, reason })));
+      continue;
+    }
+    const element = document.getElementById(elementId)!;
+
+    if (replaceExisting) {
+      Array.from(element.children)
+        .filter(child => SMIL_TAGS.includes(child.tagName))
+        .forEach(child => child.remove());
+    }
+
+    // Add each animation to the element
+    for (const animation of animations) {
+      // Parse inside an <svg> so tag and attribute names keep their SVG casing
+      const template = document.createElement('template');
+      template.innerHTML = `<svg>${animation.trim()}</svg>`;
+      const animationElement = template.content.firstElementChild?.firstElementChild;
+
+      if (!animationElement || !SMIL_TAGS.includes(animationElement.tagName)) {
+        dropped.push({ elementId, markup: animation, reason: 'invalid' });
+        continue;
       }
+
+      // SMIL can target another element through href, which must pass the same checks
+      const href = animationElement.getAttribute('href') ?? animationElement.getAttribute('xlink:href');
+      const hrefReason = href?.startsWith('#') ? rejectionReason(href.slice(1)) : null;
+      if (hrefReason) {
+        dropped.push({ elementId: href!.slice(1), markup: animation, reason: hrefReason });
+        continue;
+      }
+
+      setRepeat(animationElement, repeat);
+      applyAnimationParams(animationElement, parameters);
+
+      element.appendChild(animationElement);
+    }
+  }
+
+  return {
+    svg: document.querySelector('svg')?.outerHTML || '',
+    dropped
+  };
+}
+
+// Elements that can be selected and animated on their own
+const IDENTIFIABLE_TAGS = ['g', 'path', 'rect', 'circle', 'ellipse', 'line', 'polyline', 'polygon', 'text', 'image', 'use'];
+
+// Names design tools give layers and groups, used to make the generated ids readable
+const LABEL_ATTRIBUTES = ['inkscape:label', 'data-name', 'serif:id', 'aria-label'];
+
+function slugify(label: string): string {
+  return label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 24)
+    .replace(/-+$/, '');
+}
+
+function selectorOf(element: Element): string {
+  const steps: string[] = [];
+  for (let current: Element | null = element; current; current = current.parentElement) {
+    const tagName = current.tagName;
+    if (tagName === 'svg' && !current.parentElement?.closest('svg')) {
+      steps.unshift('svg');
+      break;
     }
+    const index = Array.from(current.parentElement?.children ?? [])
+      .filter(sibling => sibling.tagName === tagName)
+      .indexOf(current) + 1;
+    steps.unshift(`${tagName}:nth-of-type(${index})`);
+  }
+  return steps.join(' > ');
+}
+
+// Gives every shape and group without an id a readable one such as `circle-3` or
+// `g-header-1`, so the whole drawing can be selected and animated. Existing ids are
+// kept, and the same file always gets the same ids since they follow document order.
+export function normalizeElementIds(svgContent: string): Omit<NormalizedSvg, 'stripped'> {
+  const dom = new JSDOM(svgContent);
+  const document = dom.window.document;
 
-    return minimalSvg.outerHTML;
-  } catch (error) {
-    console.error('Error extracting selected elements:', error);
-    return '<svg xmlns="http://www.w3.org/2000/svg"></svg>'; // Return empty SVG on error
+  const svg = document.querySelector('svg');
+  if (!svg) throw new Error("Invalid SVG: no svg element found");
+
+  const taken = new Set(Array.from(document.querySelectorAll('[id]')).map(element => element.id));
+  const counters = new Map<string, number>();
+  const assignedIds: Record<string, string> = {};
+
+  for (const element of Array.from(svg.querySelectorAll(IDENTIFIABLE_TAGS.join(',')))) {
+    if (element.id || element.parentElement?.closest(NON_RENDERED_TAGS.join(','))) continue;
+
+    const label = LABEL_ATTRIBUTES
+      .map(name => slugify(element.getAttribute(name) ?? ''))
+      .find(Boolean);
+    const prefix = label ? `${element.tagName}-${label}` : element.tagName;
+
+    let id: string;
+    do {
+      const count = (counters.get(prefix) ?? 0) + 1;
+      counters.set(prefix, count);
+      id = `${prefix}-${count}`;
+    } while (taken.has(id));
+
+    assignedIds[id] = selectorOf(element);
+    element.setAttribute('id', id);
+    taken.add(id);
   }
+
+  return { svg: svg.outerHTML, assignedIds };
 }
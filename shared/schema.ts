@@ -1,4 +1,4 @@
-import { pgTable, text, serial, jsonb, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, jsonb, timestamp, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -6,45 +6,183 @@ import { z } from "zod";
 export const animationParamsSchema = z.object({
   duration: z.number().min(0.1).max(10).default(1),
   easing: z.enum(['linear', 'ease', 'ease-in', 'ease-out', 'ease-in-out']).default('ease'),
-  repeat: z.number().int().min(0).max(Infinity).default(0),
   direction: z.enum(['normal', 'reverse', 'alternate']).default('normal'),
 });
 
 export type AnimationParams = z.infer<typeof animationParamsSchema>;
 
+// Used wherever neither the user nor the model chose a parameter
+export const DEFAULT_ANIMATION_PARAMS: AnimationParams = animationParamsSchema.parse({});
+
+// How many times every animation plays, applied as its SMIL repeatCount
+export const repeatModeSchema = z.discriminatedUnion('mode', [
+  z.object({ mode: z.literal('once') }),
+  z.object({ mode: z.literal('times'), count: z.number().int().min(2).max(100) }),
+  z.object({ mode: z.literal('indefinite') }),
+]);
+
+export type RepeatMode = z.infer<typeof repeatModeSchema>;
+
 // Message in the animation conversation
 export const messageSchema = z.object({
   role: z.enum(['user', 'assistant']),
   content: z.string(),
   timestamp: z.date(),
+  cancelled: z.boolean().optional(), // A user turn that was cancelled before the model answered
 });
 
 export type Message = z.infer<typeof messageSchema>;
 
+// A generation attempt that failed, kept so it can be inspected and retried
+export const generationErrorSchema = z.object({
+  prompt: z.string(),
+  message: z.string(),
+  modelResponse: z.string().nullable(),
+  timestamp: z.date(),
+});
+
+export type GenerationError = z.infer<typeof generationErrorSchema>;
+
 // Main animations table
 export const animations = pgTable("animations", {
   id: serial("id").primaryKey(),
+  title: text("title"),
   originalSvg: text("original_svg").notNull(),
   description: text("description").notNull(),
   selectedElements: text("selected_elements").array(),
+  referenceElements: text("reference_elements").array(),
+  repeat: jsonb("repeat").$type<RepeatMode>().notNull().default({ mode: 'indefinite' }),
   animatedSvg: text("animated_svg"),
   parameters: jsonb("parameters").$type<AnimationParams>(),
   conversation: jsonb("conversation").$type<Message[]>(),
   explanation: text("explanation"), // Added explanation field
   error: text("error"),
+  errorDetails: jsonb("error_details").$type<GenerationError>(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Every generated SVG for an animation, oldest first
+export const animationVersions = pgTable("animation_versions", {
+  id: serial("id").primaryKey(),
+  animationId: integer("animation_id").notNull().references(() => animations.id, { onDelete: "cascade" }),
+  version: integer("version").notNull(),
+  animatedSvg: text("animated_svg").notNull(),
+  parameters: jsonb("parameters").$type<AnimationParams>(),
+  prompt: text("prompt").notNull(),
+  explanation: text("explanation"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("animation_versions_animation_version_idx").on(table.animationId, table.version),
+]);
+
+// Upper bound on the candidate animations generated in parallel for one request
+export const MAX_VARIANTS = 4;
+
 // Schema for creating a new animation
+
 export const insertAnimationSchema = createInsertSchema(animations).pick({
   originalSvg: true,
   description: true,
 }).extend({
+  title: z.string().trim().min(1).optional(),
   selectedElements: z.array(z.string()).optional(),
   referenceElements: z.array(z.string()).optional(),
-  parameters: animationParamsSchema.optional(),
+  repeat: repeatModeSchema.optional(),
+  parameters: animationParamsSchema.partial().optional(),
+  variants: z.number().int().min(1).max(MAX_VARIANTS).optional(),
 });
 
 export type InsertAnimation = z.infer<typeof insertAnimationSchema>;
-export type Animation = typeof animations.$inferSelect;
\ No newline at end of file
+
+// Schema for follow-up messages and metadata edits on an existing animation
+export const updateAnimationSchema = z.object({
+  title: z.string().trim().nullable().optional(),
+  description: z.string().min(1).optional(),
+  // The selection the follow-up applies to, replacing the stored one
+  selectedElements: z.array(z.string()).min(1).optional(),
+  referenceElements: z.array(z.string()).optional(),
+  parameters: animationParamsSchema.partial().optional(),
+  repeat: repeatModeSchema.optional(),
+  // Follow-ups build on the latest result unless the client asks to start from the original
+  base: z.enum(['previous', 'original']).default('previous'),
+  variants: z.number().int().min(1).max(MAX_VARIANTS).optional(),
+});
+
+export type UpdateAnimation = z.infer<typeof updateAnimationSchema>;
+export type Animation = typeof animations.$inferSelect;
+export type AnimationVersion = typeof animationVersions.$inferSelect;
+
+// Query parameters for listing saved animations
+export const listAnimationsQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  sortBy: z.enum(['createdAt', 'updatedAt']).default('createdAt'),
+  order: z.enum(['asc', 'desc']).default('desc'),
+  search: z.string().trim().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+export type ListAnimationsQuery = z.infer<typeof listAnimationsQuerySchema>;
+
+export type AnimationSummary = Omit<Animation, 'conversation'>;
+
+export interface AnimationList {
+  items: AnimationSummary[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+// A SMIL element attached to an element of the animated SVG
+export interface SmilElement {
+  elementId: string | null;
+  tagName: string;
+  markup: string;
+}
+
+// Something removed from an SVG because it could run code or load external content
+export interface StrippedContent {
+  elementId: string | null;
+  tagName: string;
+  attribute?: string; // Set when only the attribute was removed, not the element
+  reason: 'script' | 'event-handler' | 'javascript-href' | 'external-reference' | 'foreign-object' | 'html-element';
+}
+
+// An uploaded SVG after unsafe content was stripped and every shape and group was given
+// an id, with the ids that were assigned mapped to a selector locating the element
+export interface NormalizedSvg {
+  svg: string;
+  assignedIds: Record<string, string>;
+  stripped: StrippedContent[];
+}
+
+// Progress reported while an animation is being generated
+export type GenerationStage = 'extracting' | 'prompting' | 'parsing' | 'validating' | 'inserting';
+
+export type GenerationEvent =
+  | { type: 'stage'; stage: GenerationStage }
+  | { type: 'explanation'; delta: string };
+
+// A SMIL element the server refused to insert
+export interface DroppedAnimation {
+  elementId: string;
+  markup: string;
+  reason: 'reference' | 'not-selected' | 'not-found' | 'invalid';
+}
+
+// Response of a generation request, with anything the server refused to insert or
+// stripped and, when several variants were requested, the version recorded for each one
+export type GeneratedAnimation = Animation & {
+  droppedAnimations?: DroppedAnimation[];
+  strippedContent?: StrippedContent[];
+  variants?: AnimationVersion[];
+};
+
+export interface VersionDiff {
+  from: number;
+  to: number;
+  added: SmilElement[];
+  removed: SmilElement[];
+}